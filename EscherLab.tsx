@@ -1,156 +1,846 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 // Robust manual Escher tessellation builder.
 // Key ideas:
-// 1) Start from a base tile (rectangle). Users draw polygons (by clicking) to CUT & SLIDE left↔right / top↔bottom.
+// 1) Start from a base tile (rectangle, square, hexagon, triangle or parallelogram). Users draw polygons (by clicking) to CUT & SLIDE left↔right / top↔bottom.
 // 2) Boolean operations (Union / Subtract) against the tile using drawn polygons.
 // 3) Manual assembly canvas: clone tiles and drag them around to build a tessellation puzzle (no auto preview).
-// 4) Full undo/redo/reset. Export tile SVG and assembly SVG/PNG.
+// 4) Full undo/redo/reset. Export tile SVG and assembly SVG/PNG. Save/Open versioned project files (+ autosave).
 // 5) No auto tiling; users must piece shapes together by eye with optional snapping.
+// 6) Circle Limit mode: the same cuts on a hyperbolic {p,q} tile, assembled by Möbius maps in the Poincaré disk.
 
 // NPM deps (available in ChatGPT Apps):
 //   npm: polygon-clipping (robust polygon boolean ops)
 //   npm: zustand (optional – we do our own history here, to keep single-file simplicity)
 
 import * as pc from "polygon-clipping"; // MultiPolygon boolean ops
+import {
+  rectMultiPolygon, translateMP, rotatePoint, rotateMP, reflectMP, pointInMP,
+  ringToPath, mpToPath, simplePolygonToMP, intersectWithBounds, distance, mpBounds, unionBounds, samePoint,
+  openRing, mpVertices, linkedVertices, moveVertices, deleteVertices, insertLinkedVertex,
+  nearestOnMP, mirrorThrough, outHandle, inHandle, hasHandle, flattenDraft, closeIfNeeded,
+  draftToPath, mpToCurvePath, pruneCurves, BASE_KINDS, normalizeTileSize, baseTile, baseOf,
+  baseRegion, baseWorkRegion, pivotPoints, snapToPlacement, applyTileOp, AREA_EPS,
+  ringArea, mpArea, checkTessellation, checkDraft, checkTileOp, repairDraft,
+  HYPER_R, MOBIUS_IDENTITY, kleinToDisk, diskToKlein, applyMobius, composeMobius, invertMobius, diskRotation,
+  diskTranslation, geodesicPath, hyperMPPath, isHyperbolic, hyperBase, hyperTiling, snapToTiling, initialHyperState,
+  checkHyperOp, applyHyperOp, clipError, objectSnap, moveDraftPoint, isClosedDraft,
+  type EditorState, type Prototype,
+} from "./geometry";
+import { FAB_DEFAULTS, PRINT_DEFAULTS, PRINT_PAPERS, writeDXF, writeGCode, writeSTL, writeTileSheetPDF } from "./fabrication";
 
-/******************** Geometry Helpers ********************/
-// A MultiPolygon is: number[][][][] per polygon-clipping: Array<Polygon>
-// Polygon = Array<Ring>; Ring = Array<[x,y]>; First ring is outer, then holes.
+/******************** SVG Import ********************/
+// Reads <path d>, <polygon>, <polyline> and <rect> elements (rect corner radii are ignored), applies
+// the element and ancestor transforms and returns one draft per subpath, in the draft format (see Curves in geometry.ts).
+// Circular arcs under a similarity transform stay arcs; elliptical arcs become cubic Béziers.
+// Matrices follow SVG: [a, b, c, d, e, f] maps (x, y) to (a*x + c*y + e, b*x + d*y + f).
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+const applyMatrix = (m, p) => [m[0]*p[0] + m[2]*p[1] + m[4], m[1]*p[0] + m[3]*p[1] + m[5]];
+const multiplyMatrix = (m1, m2) => {
+  const [a1, b1, c1, d1, e1, f1] = m1, [a2, b2, c2, d2, e2, f2] = m2;
+  return [a1*a2 + c1*b2, b1*a2 + d1*b2, a1*c2 + c1*d2, b1*c2 + d1*d2, a1*e2 + c1*f2 + e1, b1*e2 + d1*f2 + f1];
+};
+const isSimilarity = (m) => {
+  const [a, b, c, d] = m;
+  return Math.abs(a*a + b*b - (c*c + d*d)) < 1e-9 * (a*a + b*b + 1) && Math.abs(a*c + b*d) < 1e-9 * (a*a + b*b + 1);
+};
 
-const rectMultiPolygon = (w, h) => [ [ [ [0,0], [w,0], [w,h], [0,h] ] ] ];
+const parseTransform = (str) => {
+  let m = IDENTITY;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match;
+  while ((match = re.exec(str || ''))) {
+    const v = match[2].trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    const rad = (deg) => deg * Math.PI / 180;
+    let t = IDENTITY;
+    if (match[1] === 'matrix' && v.length === 6) t = v;
+    if (match[1] === 'translate') t = [1, 0, 0, 1, v[0] || 0, v[1] || 0];
+    if (match[1] === 'scale') t = [v[0], 0, 0, v.length > 1 ? v[1] : v[0], 0, 0];
+    if (match[1] === 'rotate') {
+      const c = Math.cos(rad(v[0])), s = Math.sin(rad(v[0]));
+      const [cx, cy] = [v[1] || 0, v[2] || 0];
+      t = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, cx, cy], [c, s, -s, c, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    }
+    if (match[1] === 'skewX') t = [1, 0, Math.tan(rad(v[0])), 1, 0, 0];
+    if (match[1] === 'skewY') t = [1, Math.tan(rad(v[0])), 0, 1, 0, 0];
+    m = multiplyMatrix(m, t);
+  }
+  return m;
+};
 
-const cloneMP = (mp) => JSON.parse(JSON.stringify(mp));
+// Path data -> subpaths { start, segs, closed } with absolute coordinates; segs are
+// { type: 'L', to } | { type: 'C', c1, c2, to } | { type: 'A', from, rx, ry, phi, large, sweep, to }
+const parsePathData = (d) => {
+  const tokens = [];
+  const re = /([MmLlHhVvCcSsQqTtAaZz])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/g;
+  let t;
+  while ((t = re.exec(d || ''))) tokens.push(t[1] ? { cmd: t[1] } : t[2]);
+  const subpaths = [];
+  let i = 0, cmd = null, cur = [0, 0], start = [0, 0], sub = null, lastCtrl = null, lastCmd = null;
+  const num = () => {
+    if (typeof tokens[i] !== 'string') throw new Error('Malformed path data');
+    return Number(tokens[i++]);
+  };
+  // Arc flags may be written without separators ("a5 5 0 0110 0"), which the number regex merges
+  const flag = () => {
+    const v = tokens[i];
+    if (typeof v !== 'string' || !/^[01]/.test(v)) throw new Error('Malformed arc flag');
+    if (v.length === 1) i++;
+    else tokens[i] = v.slice(1);
+    return Number(v[0]);
+  };
+  const pt = (rel) => { const x = num(), y = num(); return rel ? [cur[0] + x, cur[1] + y] : [x, y]; };
+  while (i < tokens.length) {
+    if (typeof tokens[i] !== 'string') cmd = tokens[i++].cmd;
+    else if (!cmd) throw new Error('Path data must start with a command');
+    const rel = cmd === cmd.toLowerCase();
+    const C = cmd.toUpperCase();
+    if (C === 'Z') {
+      if (sub) { sub.closed = true; cur = start; }
+      sub = null; lastCtrl = null; lastCmd = 'Z';
+      continue;
+    }
+    if (C === 'M') {
+      cur = pt(rel); start = cur;
+      sub = { start, segs: [], closed: false };
+      subpaths.push(sub);
+      cmd = rel ? 'l' : 'L'; // further pairs are implicit line-tos
+      lastCtrl = null; lastCmd = 'M';
+      continue;
+    }
+    if (!sub) { sub = { start: cur, segs: [], closed: false }; start = cur; subpaths.push(sub); }
+    let seg;
+    if (C === 'L') seg = { type: 'L', to: pt(rel) };
+    if (C === 'H') { const x = num(); seg = { type: 'L', to: [rel ? cur[0] + x : x, cur[1]] }; }
+    if (C === 'V') { const y = num(); seg = { type: 'L', to: [cur[0], rel ? cur[1] + y : y] }; }
+    if (C === 'C') { const c1 = pt(rel), c2 = pt(rel); seg = { type: 'C', c1, c2, to: pt(rel) }; }
+    if (C === 'S') {
+      const c1 = lastCtrl && 'CS'.includes(lastCmd) ? mirrorThrough(lastCtrl, cur) : cur;
+      const c2 = pt(rel);
+      seg = { type: 'C', c1, c2, to: pt(rel) };
+    }
+    if (C === 'Q' || C === 'T') {
+      const q = C === 'Q' ? pt(rel) : (lastCtrl && 'QT'.includes(lastCmd) ? mirrorThrough(lastCtrl, cur) : cur);
+      const to = pt(rel);
+      // degree elevation to a cubic
+      seg = { type: 'C', c1: [cur[0] + 2/3*(q[0]-cur[0]), cur[1] + 2/3*(q[1]-cur[1])], c2: [to[0] + 2/3*(q[0]-to[0]), to[1] + 2/3*(q[1]-to[1])], to, q };
+    }
+    if (C === 'A') {
+      const rx = num(), ry = num(), phi = num(), large = flag(), sweep = flag();
+      seg = { type: 'A', from: cur, rx, ry, phi, large, sweep, to: pt(rel) };
+    }
+    if (!seg) throw new Error(`Unsupported path command ${cmd}`);
+    sub.segs.push(seg);
+    lastCtrl = seg.q || seg.c2 || null;
+    lastCmd = C;
+    cur = seg.to;
+  }
+  return subpaths;
+};
 
-const translateRing = (ring, dx, dy) => ring.map(([x,y]) => [x+dx, y+dy]);
-const translatePoly = (poly, dx, dy) => poly.map(ring => translateRing(ring, dx, dy));
-const translateMP = (mp, dx, dy) => mp.map(poly => translatePoly(poly, dx, dy));
+// SVG endpoint arc -> centre parameters (SVG spec F.6.5), or null when it degenerates to a line
+const arcCenter = ({ from, rx, ry, phi, large, sweep, to }) => {
+  rx = Math.abs(rx); ry = Math.abs(ry);
+  if (rx < 1e-9 || ry < 1e-9 || distance(from, to) < 1e-9) return null;
+  const a = phi * Math.PI / 180, cos = Math.cos(a), sin = Math.sin(a);
+  const dx = (from[0] - to[0]) / 2, dy = (from[1] - to[1]) / 2;
+  const x1 = cos*dx + sin*dy, y1 = -sin*dx + cos*dy;
+  const lambda = x1*x1/(rx*rx) + y1*y1/(ry*ry);
+  if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+  const num = rx*rx*ry*ry - rx*rx*y1*y1 - ry*ry*x1*x1;
+  const den = rx*rx*y1*y1 + ry*ry*x1*x1;
+  const coef = (large !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = coef * rx * y1 / ry, cyp = -coef * ry * x1 / rx;
+  const cx = cos*cxp - sin*cyp + (from[0] + to[0]) / 2, cy = sin*cxp + cos*cyp + (from[1] + to[1]) / 2;
+  const angle = (ux, uy, vx, vy) => Math.atan2(ux*vy - uy*vx, ux*vx + uy*vy);
+  const theta = angle(1, 0, (x1 - cxp)/rx, (y1 - cyp)/ry);
+  let delta = angle((x1 - cxp)/rx, (y1 - cyp)/ry, (-x1 - cxp)/rx, (-y1 - cyp)/ry);
+  if (!sweep && delta > 0) delta -= 2*Math.PI;
+  if (sweep && delta < 0) delta += 2*Math.PI;
+  const at = (th) => [cx + rx*cos*Math.cos(th) - ry*sin*Math.sin(th), cy + rx*sin*Math.cos(th) + ry*cos*Math.sin(th)];
+  const tangent = (th) => [-rx*cos*Math.sin(th) - ry*sin*Math.cos(th), -rx*sin*Math.sin(th) + ry*cos*Math.cos(th)];
+  return { rx, ry, theta, delta, at, tangent };
+};
 
-const withinBounds = (x, y, w, h) => x >= 0 && x <= w && y >= 0 && y <= h;
+// Elliptical arc -> cubic pieces of at most 90°
+const arcToCubics = (arc) => {
+  const n = Math.max(1, Math.ceil(Math.abs(arc.delta) / (Math.PI / 2)));
+  const step = arc.delta / n, k = 4/3 * Math.tan(step / 4);
+  return Array.from({ length: n }, (_, i) => {
+    const t0 = arc.theta + step*i, t1 = t0 + step;
+    const p0 = arc.at(t0), p1 = arc.at(t1), d0 = arc.tangent(t0), d1 = arc.tangent(t1);
+    return { type: 'C', c1: [p0[0] + k*d0[0], p0[1] + k*d0[1]], c2: [p1[0] - k*d1[0], p1[1] - k*d1[1]], to: p1 };
+  });
+};
 
-// Convert MultiPolygon to SVG path string
-const ringToPath = (ring) => ring.map((p, i) => `${i===0?"M":"L"}${p[0]} ${p[1]}`).join(" ") + " Z";
-const polyToPath = (poly) => poly.map(ringToPath).join(" ");
-const mpToPath = (mp) => mp.map(polyToPath).join(" ");
+// One subpath under matrix m -> draft points
+const subpathToDraft = (sub, m) => {
+  const draft = [applyMatrix(m, sub.start)];
+  const setOut = (h) => {
+    const last = draft[draft.length - 1];
+    draft[draft.length - 1] = [last[0], last[1], { hi: [last[0], last[1]], ...(last[2] || {}), h }];
+  };
+  const pushCubic = (seg) => {
+    const from = draft[draft.length - 1], to = applyMatrix(m, seg.to);
+    const c1 = applyMatrix(m, seg.c1), c2 = applyMatrix(m, seg.c2);
+    if (distance(c1, from) > 1e-6) setOut(c1);
+    draft.push(distance(c2, to) > 1e-6 ? [to[0], to[1], { hi: c2 }] : to);
+  };
+  sub.segs.forEach(seg => {
+    if (seg.type === 'L') draft.push(applyMatrix(m, seg.to));
+    if (seg.type === 'C') pushCubic(seg);
+    if (seg.type === 'A') {
+      const arc = arcCenter(seg);
+      if (!arc) { draft.push(applyMatrix(m, seg.to)); return; }
+      if (Math.abs(arc.rx - arc.ry) > 1e-6 * arc.rx || !isSimilarity(m)) { arcToCubics(arc).forEach(pushCubic); return; }
+      // circular: keep as a draft arc, bulge measured after the transform
+      const a = draft[draft.length - 1], b = applyMatrix(m, seg.to), top = applyMatrix(m, arc.at(arc.theta + arc.delta / 2));
+      const len = distance(a, b);
+      const s = ((top[1] - a[1]) * (b[0] - a[0]) - (top[0] - a[0]) * (b[1] - a[1])) / len; // along the left normal
+      draft.push([b[0], b[1], { arc: s }]);
+    }
+  });
+  if (sub.closed && distance(draft[draft.length - 1], draft[0]) > 1e-6) draft.push([draft[0][0], draft[0][1]]);
+  return draft;
+};
+
+// Parse an SVG document (browser DOMParser) into drafts in user units
+const svgToDrafts = (text) => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid SVG');
+  const ctm = (el) => {
+    let m = IDENTITY;
+    for (let n = el; n && n.nodeType === 1; n = n.parentNode) m = multiplyMatrix(parseTransform(n.getAttribute('transform')), m);
+    return m;
+  };
+  const drafts = [];
+  // clip paths and decoration layers (as in our own exports) are not outlines
+  Array.from(doc.querySelectorAll('path, polygon, polyline, rect')).filter(el => !el.closest('defs, clipPath, .decoration')).forEach(el => {
+    const tag = el.tagName.toLowerCase();
+    let d = el.getAttribute('d');
+    if (tag === 'polygon' || tag === 'polyline') d = `M${el.getAttribute('points') || ''}${tag === 'polygon' ? 'Z' : ''}`;
+    if (tag === 'rect') {
+      const [x, y, w, h] = ['x', 'y', 'width', 'height'].map(k => parseFloat(el.getAttribute(k) || '0'));
+      d = `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+    }
+    const m = ctm(el);
+    parsePathData(d).forEach(sub => {
+      const draft = subpathToDraft(sub, m);
+      if (draft.length >= 3) drafts.push(draft);
+    });
+  });
+  return drafts;
+};
 
-// Convert a simple polygon (array of [x,y]) into MultiPolygon structure expected by polygon-clipping
-const simplePolygonToMP = (points) => [ [ points ] ];
+// Map every coordinate of a draft through the similarity x -> k*x + t
+const scaleDraft = (draft, k, t) => draft.map(p => {
+  const f = (q) => [k*q[0] + t[0], k*q[1] + t[1]];
+  const [x, y] = f(p);
+  if (!p[2]) return [x, y];
+  return [x, y, {
+    ...(p[2].h && { h: f(p[2].h) }),
+    ...(p[2].hi && { hi: f(p[2].hi) }),
+    ...(p[2].arc && { arc: p[2].arc * k }),
+  }];
+});
 
-// Intersect an MP with the tile bounds (keeps geometry inside)
-const intersectWithBounds = (mp, w, h) => {
-  const bounds = rectMultiPolygon(w, h);
-  try {
-    const out = pc.intersection(mp, bounds);
-    if (!out || out.length === 0) return [];
-    return out;
-  } catch (e) {
-    console.warn("Intersection error", e);
-    return mp; // if something fails, keep original
+/******************** Assembly Instance Helpers ********************/
+// An instance is drawn as translate(x,y) rotate(rot) about the tile centroid `c`, and when flipped it is
+// additionally mirrored about the vertical axis through `c`. The centroid therefore stays at (x,y) + c
+// whatever the rotation or flip; snapToPlacement works out where turned tiles meet the cells of the base.
+const instanceTransform = (inst, c) =>
+  `translate(${inst.x}, ${inst.y}) rotate(${inst.rot}, ${c[0]}, ${c[1]})` + (inst.flip ? ` translate(${2*c[0]}, 0) scale(-1, 1)` : '');
+
+// Map an assembly-space point into the tile's own coordinates (inverse of instanceTransform)
+const toInstanceLocal = (inst, [px, py], c) => {
+  let [x, y] = rotatePoint([px - inst.x, py - inst.y], -inst.rot, c[0], c[1]);
+  if (inst.flip) x = 2*c[0] - x;
+  return [x, y];
+};
+
+// Topmost instance whose tile shape contains the point; `shapeOf(inst)` gives its { mp, center }
+const hitInstance = (instances, p, shapeOf) => {
+  for (let i = instances.length - 1; i >= 0; i--) {
+    const { mp, center } = shapeOf(instances[i]);
+    if (pointInMP(toInstanceLocal(instances[i], p, center), mp)) return instances[i];
   }
+  return null;
 };
 
-// Safe boolean ops that always intersect back with bounds for the tile shape
-const mpUnion = (a, b, w, h) => {
-  try {
-    const u = pc.union(a, b);
-    return intersectWithBounds(u, w, h);
-  } catch (e) {
-    console.warn("Union error", e);
-    return a;
+// Tile geometry of an instance in assembly space (same transform as instanceTransform)
+const instanceMP = (inst, tileMP, c) => {
+  const mirrored = inst.flip ? reflectMP(tileMP, c, [0, 1]) : tileMP;
+  return translateMP(rotateMP(mirrored, inst.rot, c[0], c[1]), inst.x, inst.y);
+};
+
+// Area centroid of an MP (holes subtract)
+const mpCentroid = (mp) => {
+  let area = 0, cx = 0, cy = 0;
+  mp.forEach(poly => poly.forEach((ring, ri) => {
+    let a = 0, rx = 0, ry = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const [x1, y1] = ring[i], [x2, y2] = ring[(i + 1) % ring.length];
+      const cross = x1*y2 - x2*y1;
+      a += cross; rx += (x1 + x2) * cross; ry += (y1 + y2) * cross;
+    }
+    if (a === 0) return;
+    const sign = (ri === 0 ? 1 : -1) * Math.sign(a); // orient outer rings positive, holes negative
+    area += sign * a / 2; cx += sign * rx / 6; cy += sign * ry / 6;
+  }));
+  if (Math.abs(area) < 1e-9) {
+    const [x0, y0, x1, y1] = mpBounds(mp);
+    return [(x0 + x1) / 2, (y0 + y1) / 2];
   }
+  return [cx / area, cy / area];
+};
+
+const normalizeAngle = (deg) => ((deg % 360) + 540) % 360 - 180;
+
+// Key events typed into form fields should not trigger canvas shortcuts
+const isTypingTarget = (el) => el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement;
+
+/******************** Assembly View ********************/
+// The assembly is an unbounded plane seen through a fixed-size viewport. A view is { x, y, zoom }: the
+// world point at the viewport's top-left corner and viewport pixels per world unit.
+const VIEWPORT_W = 1200, VIEWPORT_H = 800;
+const MIN_ZOOM = 0.05, MAX_ZOOM = 8;
+const MIN_GRID_PX = 8; // the grid doubles its step when zoomed out past this spacing
+
+const clampZoom = (zoom) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+const viewBoxOf = (view) => [view.x, view.y, VIEWPORT_W / view.zoom, VIEWPORT_H / view.zoom];
+// World point under a mouse event, for the viewport element's client rect
+const clientToWorld = (view, e, rect) => [
+  view.x + (e.clientX - rect.left) * VIEWPORT_W / rect.width / view.zoom,
+  view.y + (e.clientY - rect.top) * VIEWPORT_H / rect.height / view.zoom,
+];
+// Zoom by `factor` keeping world point p where it is on screen
+const zoomViewAt = (view, factor, p) => {
+  const zoom = clampZoom(view.zoom * factor);
+  const k = view.zoom / zoom;
+  return { zoom, x: p[0] - (p[0] - view.x) * k, y: p[1] - (p[1] - view.y) * k };
 };
+// View centred on bounds [x0, y0, x1, y1] that shows them whole with `margin` world units around
+const fitView = (bounds, margin) => {
+  const w = bounds[2] - bounds[0] + 2*margin, h = bounds[3] - bounds[1] + 2*margin;
+  const zoom = clampZoom(Math.min(VIEWPORT_W / w, VIEWPORT_H / h));
+  return { zoom, x: (bounds[0] + bounds[2]) / 2 - VIEWPORT_W / zoom / 2, y: (bounds[1] + bounds[3]) / 2 - VIEWPORT_H / zoom / 2 };
+};
+const gridStepFor = (gridSize, zoom) => {
+  let step = gridSize;
+  while (step * zoom < MIN_GRID_PX) step *= 2;
+  return step;
+};
+/******************** Assembly Fit Check ********************/
+// Opt-in "Check fit" for the manual assembly; compares placed instances pairwise:
+//   overlap – A ∩ B
+//   gap     – slivers up to ~2×FIT_TOLERANCE wide between A and B: closing(A ∪ B) − (A ∪ B),
+//             with the morphological closing approximated by copies shifted in 8 directions
+// Holes left inside the union of all tiles (e.g. a missing tile) are reported as enclosed gaps.
+const FIT_TOLERANCE = 3;
+const FIT_SHIFTS = [0, 45, 90, 135, 180, 225, 270, 315].map(deg => [
+  FIT_TOLERANCE * Math.cos(deg * Math.PI / 180),
+  FIT_TOLERANCE * Math.sin(deg * Math.PI / 180),
+]);
+
+const closeMP = (mp) => {
+  const grown = pc.union(mp, ...FIT_SHIFTS.map(([dx, dy]) => translateMP(mp, dx, dy)));
+  return pc.intersection(grown, ...FIT_SHIFTS.map(([dx, dy]) => translateMP(grown, -dx, -dy)));
+};
+
+const boundsNear = (a, b, margin) =>
+  a[0] - margin <= b[2] && b[0] - margin <= a[2] && a[1] - margin <= b[3] && b[1] - margin <= a[3];
 
-const mpDiff = (a, b, w, h) => {
+// Returns { pairs: [{a, b, overlap, gap}], overlaps: MP, gaps: MP, enclosed: number }; a/b are instance indices.
+// Throws naming the tiles when the polygon engine fails, rather than skipping them and under-reporting.
+const checkAssemblyFit = (instances, shapeOf) => {
+  const shapes = instances.map(inst => instanceMP(inst, shapeOf(inst).mp, shapeOf(inst).center));
+  const boxes = shapes.map(mpBounds);
+  const pairs = [], overlapParts = [], gapParts = [];
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      if (!boundsNear(boxes[i], boxes[j], 2 * FIT_TOLERANCE)) continue;
+      let over, gap;
+      try {
+        over = pc.intersection(shapes[i], shapes[j]);
+        const both = pc.union(shapes[i], shapes[j]);
+        gap = pc.difference(closeMP(both), both);
+      } catch (e) {
+        throw clipError(`Checking the fit of tiles ${i + 1} and ${j + 1}`, e);
+      }
+      const overlap = mpArea(over), gapArea = mpArea(gap);
+      if (overlap > AREA_EPS) overlapParts.push(over);
+      if (gapArea > AREA_EPS) gapParts.push(gap);
+      if (overlap > AREA_EPS || gapArea > AREA_EPS) pairs.push({ a: i, b: j, overlap, gap: gapArea });
+    }
+  }
+  let enclosed = 0;
   try {
-    const d = pc.difference(a, b);
-    return intersectWithBounds(d, w, h);
+    if (shapes.length > 1) {
+      const all = pc.union(shapes[0], ...shapes.slice(1));
+      const holes = all.flatMap(poly => poly.slice(1).map(ring => [ring]));
+      enclosed = mpArea(holes);
+      if (enclosed > AREA_EPS) gapParts.push(holes);
+    }
+    const merge = (parts) => parts.length === 0 ? [] : pc.union(parts[0], ...parts.slice(1));
+    return { pairs, overlaps: merge(overlapParts), gaps: merge(gapParts), enclosed };
   } catch (e) {
-    console.warn("Diff error", e);
-    return a;
+    throw clipError('Checking the fit of the whole assembly', e);
   }
 };
 
-const mpIntersect = (a, b, w, h) => {
-  try {
-    const i = pc.intersection(a, b);
-    return intersectWithBounds(i, w, h);
-  } catch (e) {
-    console.warn("Intersect error", e);
-    return a;
+/******************** Assembly Coloring ********************/
+// "Auto Color" paints placed tiles so that no two touching tiles share a color, using as few palette
+// colors as it can. Two instances touch when their outlines share more than ADJ_MIN_SHARED of boundary;
+// the shared length is measured as area(A ∩ grow(B)) / ADJ_TOLERANCE, with grow() built from shifted
+// copies like the fit check, so tiles meeting only at a corner do not count.
+// Instances carry the result as `color`; `pinned` marks colors set by hand, which recoloring keeps.
+const ADJ_TOLERANCE = 1;
+const ADJ_MIN_SHARED = 4;
+const COLOR_SEARCH_STEPS = 20000; // backtracking budget per color count before settling for greedy
+const PALETTES = [
+  { id: 'escher', label: 'Escher', colors: ['#c0392b', '#f1c40f', '#2c3e50', '#ecf0f1'] },
+  { id: 'sea', label: 'Sea', colors: ['#1e3a8a', '#38bdf8', '#f8fafc', '#0f766e'] },
+  { id: 'earth', label: 'Earth', colors: ['#7c2d12', '#d97706', '#fef3c7', '#365314'] },
+  { id: 'pastel', label: 'Pastel', colors: ['#bfdbfe', '#fde68a', '#bbf7d0', '#fecaca'] },
+];
+const ADJ_SHIFTS = [0, 45, 90, 135, 180, 225, 270, 315].map(deg => [
+  ADJ_TOLERANCE * Math.cos(deg * Math.PI / 180),
+  ADJ_TOLERANCE * Math.sin(deg * Math.PI / 180),
+]);
+
+// Neighbour lists (instance indices) of the placed shapes; throws like checkAssemblyFit
+const assemblyAdjacency = (shapes) => {
+  const boxes = shapes.map(mpBounds);
+  const adj = shapes.map(() => []);
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      if (!boundsNear(boxes[i], boxes[j], 2 * ADJ_TOLERANCE)) continue;
+      let shared;
+      try {
+        const grown = pc.union(shapes[j], ...ADJ_SHIFTS.map(([dx, dy]) => translateMP(shapes[j], dx, dy)));
+        shared = mpArea(pc.intersection(shapes[i], grown)) / ADJ_TOLERANCE;
+      } catch (e) {
+        throw clipError(`Finding whether tiles ${i + 1} and ${j + 1} touch`, e);
+      }
+      if (shared > ADJ_MIN_SHARED) { adj[i].push(j); adj[j].push(i); }
+    }
+  }
+  return adj;
+};
+
+// Color indices 0..k-1 for every vertex such that neighbours differ, or null. `fixed[v]` (an index, or
+// -1 for a color outside the palette) pre-assigns a vertex. Vertices are taken most-constrained first (DSATUR).
+const colorWithK = (adj, k, fixed, budget) => {
+  const colors = fixed.slice();
+  for (let v = 0; v < adj.length; v++) {
+    if (colors[v] !== undefined && colors[v] >= 0 && adj[v].some(u => colors[u] === colors[v])) return null;
   }
+  let steps = 0;
+  const pick = () => {
+    let best = -1, bestSat = -1, bestDeg = -1;
+    for (let v = 0; v < adj.length; v++) {
+      if (colors[v] !== undefined) continue;
+      const sat = new Set(adj[v].map(u => colors[u]).filter(c => c !== undefined && c >= 0)).size;
+      if (sat > bestSat || (sat === bestSat && adj[v].length > bestDeg)) { best = v; bestSat = sat; bestDeg = adj[v].length; }
+    }
+    return best;
+  };
+  const solve = () => {
+    const v = pick();
+    if (v < 0) return true;
+    if (++steps > budget) return false;
+    for (let c = 0; c < k; c++) {
+      if (adj[v].some(u => colors[u] === c)) continue;
+      colors[v] = c;
+      if (solve()) return true;
+    }
+    colors[v] = undefined;
+    return false;
+  };
+  return solve() ? colors : null;
+};
+
+// Fewest palette colors that work; when the search gives up or the palette is too small, greedy DSATUR
+// with colors reused round-robin (some neighbours may then match)
+const colorAssembly = (adj, paletteSize, fixed) => {
+  for (let k = 1; k <= paletteSize; k++) {
+    const colors = colorWithK(adj, k, fixed, COLOR_SEARCH_STEPS);
+    if (colors) return colors;
+  }
+  const colors = fixed.slice();
+  const order = adj.map((_, v) => v).filter(v => colors[v] === undefined).sort((a, b) => adj[b].length - adj[a].length);
+  order.forEach(v => {
+    const used = new Set(adj[v].map(u => colors[u]));
+    let c = 0;
+    while (used.has(c)) c++;
+    colors[v] = c % paletteSize;
+  });
+  return colors;
+};
+
+/******************** Decoration Layers ********************/
+// Interior detail drawn on the tile, in ordered layers (first = bottom) of items in tile coordinates:
+//   { type: 'stroke', points: Array<[x,y]>, color, width } – freehand line
+//   { type: 'fill', draft: Array<draft point>, color }      – closed shape in the draft format (see geometry.ts)
+// Items are stored unclipped; every view clips them to the current tile outline, so they follow
+// later edits of tileMP and travel with each assembly instance's transform.
+const DEFAULT_LAYERS = [{ id: 'layer-1', name: 'Layer 1', visible: true, items: [] }];
+const MIN_STROKE_STEP = 1.5; // editor units between recorded brush points
+
+// A lone point becomes a zero-length segment so its round cap shows as a dot
+const strokePath = (points) => points.length === 1
+  ? `M${points[0][0]} ${points[0][1]} L${points[0][0]} ${points[0][1]}`
+  : points.map((p, i) => `${i===0?"M":"L"}${p[0]} ${p[1]}`).join(" ");
+
+const decorationPath = (item) => item.type === 'stroke' ? strokePath(item.points) : `${draftToPath(item.draft)} Z`;
+
+// Export markup: the clip path of the tile, and the visible layers clipped by it
+const tileClipSVG = (id, mp, curves) => `<clipPath id="${id}"><path d="${mpToCurvePath(mp, curves)}" clip-rule="evenodd"/></clipPath>`;
+const layersToSVG = (layers, clipId) => `<g class="decoration" clip-path="url(#${clipId})">` + layers.filter(l => l.visible).map(l => l.items.map(item => item.type === 'stroke'
+  ? `<path d="${decorationPath(item)}" fill="none" stroke="${item.color}" stroke-width="${item.width}" stroke-linecap="round" stroke-linejoin="round"/>`
+  : `<path d="${decorationPath(item)}" fill="${item.color}" fill-rule="evenodd"/>`).join('')).join('') + '</g>';
+
+/******************** Tile Prototypes ********************/
+// The library of tiles an assembly can mix (birds and fish, Metamorphosis). A prototype is
+// { id, name, baseKind, baseAngle, tileW, tileH, tileMP, curves, layers, tileFill }, and instances point at
+// one through `prototypeId`. The designer edits the active prototype through the same-named top-level
+// EditorState fields, so its entry in `prototypes` is only brought up to date by syncPrototypes().
+const PROTOTYPE_FIELDS = ['baseKind', 'baseAngle', 'tileW', 'tileH', 'tileMP', 'curves', 'layers', 'tileFill'];
+const TILE_FILLS = ['#bfdbfe', '#fde68a', '#bbf7d0', '#fecaca', '#ddd6fe', '#fed7aa'];
+
+const pickPrototypeFields = (s) => Object.fromEntries(PROTOTYPE_FIELDS.map(k => [k, s[k]]));
+const syncPrototypes = (s) => s.prototypes.map(p => p.id === s.activePrototype ? { ...p, ...pickPrototypeFields(s) } : p);
+// Instances saved before prototypes existed fall back to the first one
+const prototypeOf = (prototypes, inst) => prototypes.find(p => p.id === inst.prototypeId) || prototypes[0];
+
+// Cut & turn pivots a base offers: those with at least one turn that keeps the tile tiling
+const turnPivots = (base) => pivotPoints(base.outline).filter(pv => pv.angles.length > 0);
+// Pivot and angle after the pivot or the base changed: the pivot while the base still turns about it (else
+// its first turn pivot), with the angle when that pivot allows it (else the pivot's first angle)
+const validTurn = (base, pivotId, angle) => {
+  const pivots = turnPivots(base);
+  const pivot = pivots.find(pv => pv.id === pivotId) || pivots[0];
+  return { turnPivot: pivot.id, turnAngle: pivot.angles.includes(angle) ? angle : pivot.angles[0] };
+};
+
+// Make prototype `id` the one being designed; cut modes the new base lacks fall back to 'draw'
+const activatePrototype = (s, id) => {
+  const prototypes = syncPrototypes(s);
+  const proto = prototypes.find(p => p.id === id);
+  if (!proto) return s;
+  const b = baseOf(proto);
+  const slideModeValid = !s.mode.startsWith('cutSlide') || b.slides.some(sl => `cutSlide${sl.id}` === s.mode);
+  return {
+    ...s,
+    ...pickPrototypeFields(proto),
+    prototypes,
+    activePrototype: id,
+    draftShape: [],
+    ...validTurn(b, s.turnPivot, s.turnAngle),
+    mode: slideModeValid ? s.mode : 'draw',
+    glideDir: (b.slides.find(sl => sl.glide) || { id: s.glideDir }).id,
+  };
 };
 
-// Simple point helpers
-const distance = (a,b) => Math.hypot(a[0]-b[0], a[1]-b[1]);
+/******************** Circle Limit Mode ********************/
+// Hyperbolic counterpart of the designer and the assembly (see Hyperbolic Tiles in geometry.ts): the tile is
+// cut from a regular {p,q} polygon and its copies are placed in the Poincaré disk by Möbius maps, so they
+// shrink toward the rim. Both views draw the unit disk at HYPER_R units; there is no pan or zoom.
+const HYPER_DEFAULTS = { p: 6, q: 4 }; // the tiling behind Circle Limit I and IV
+const HYPER_GUIDE_TILES = 400; // {p,q} placements drawn as guides and used for snapping
+const HYPER_SNAP = 10; // Klein units within which draft points snap to the base outline
+const HYPER_SNAP_DIST = 0.5; // hyperbolic distance within which a dragged copy snaps to a placement
+const DISK_EDGE = 0.995; // clicks and drags stay inside this disk radius
+const DISK_VIEW = HYPER_R + 12; // half-size of the disk views and exports
+
+// Euclidean scale of a placement at its centre; outlines are thinned by it so tiles near the rim stay legible
+const diskScale = (m) => {
+  const [x, y] = applyMobius(m, [0, 0]);
+  return 1 - x*x - y*y;
+};
+
+// Topmost disk instance whose tile contains unit disk point z
+const hitDiskInstance = (instances, tileMP, z) => {
+  for (let i = instances.length - 1; i >= 0; i--) {
+    if (pointInMP(diskToKlein(applyMobius(invertMobius(instances[i].m), z)), tileMP)) return instances[i];
+  }
+  return null;
+};
+
+// Disk SVG of the tile at each placement ({ m, color? }); tile edges are written as true circle arcs
+const diskSVG = (hyper, placements) => {
+  const size = 2 * DISK_VIEW;
+  const tiles = placements.map(pl => `<path d="${hyperMPPath(hyper.tileMP, pl.m)}" fill="${pl.color || hyper.tileFill}" fill-rule="evenodd" ` +
+    `stroke="#0f172a" stroke-width="${+(1.5 * diskScale(pl.m)).toFixed(3)}"/>`);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="${-DISK_VIEW} ${-DISK_VIEW} ${size} ${size}">\n` +
+    `<circle cx="0" cy="0" r="${HYPER_R}" fill="#ffffff" stroke="#0f172a" stroke-width="1.5"/>\n${tiles.join('\n')}\n</svg>`;
+};
 
 /******************** Undo/Redo History Hook ********************/
+// History is a list of labeled patches { label, before, after, key, size }: `before`/`after` hold the old and
+// new values of the HISTORY_FIELDS that changed, shared by reference with the states (which are never
+// mutated), so an entry costs only what it changed. `index` counts the entries applied to `present`.
+// Calls with the same `key` in a row merge into one entry (a drag, typing into a number box), and
+// changes to UI-only fields (mode, snap, grid, …) update `present` without creating entries.
+const HISTORY_FIELDS = ['baseKind', 'baseAngle', 'tileW', 'tileH', 'tileMP', 'curves', 'layers', 'tileFill', 'prototypes', 'activePrototype', 'draftShape', 'instances', 'hyper', 'hyperDraft'];
+const MAX_HISTORY_BYTES = 16 * 1024 * 1024; // oldest entries are dropped beyond this (JSON size estimate)
+
+const diffHistoryFields = (prev, next) => {
+  const changed = HISTORY_FIELDS.filter(k => prev[k] !== next[k]);
+  if (changed.length === 0) return null;
+  return {
+    before: Object.fromEntries(changed.map(k => [k, prev[k]])),
+    after: Object.fromEntries(changed.map(k => [k, next[k]])),
+  };
+};
+
+const entrySize = (entry) => JSON.stringify(entry.before).length + JSON.stringify(entry.after).length;
+
 function useHistory(initialState) {
   const [present, setPresent] = useState(initialState);
-  const pastRef = useRef([]); // stack
-  const futureRef = useRef([]);
+  // Refs keep consecutive calls within one event consistent; every change also replaces `present`, which re-renders
+  const presentRef = useRef(initialState);
+  const logRef = useRef({ entries: [], index: 0 });
 
-  const set = useCallback((updater) => {
-    pastRef.current.push(JSON.stringify(present));
-    const next = typeof updater === 'function' ? updater(present) : updater;
+  const commit = (next) => {
+    presentRef.current = next;
     setPresent(next);
-    futureRef.current = [];
-  }, [present]);
-
-  const canUndo = pastRef.current.length > 0;
-  const canRedo = futureRef.current.length > 0;
-
-  const undo = useCallback(() => {
-    if (!canUndo) return;
-    const prev = pastRef.current.pop();
-    futureRef.current.push(JSON.stringify(present));
-    setPresent(JSON.parse(prev));
-  }, [present, canUndo]);
-
-  const redo = useCallback(() => {
-    if (!canRedo) return;
-    const next = futureRef.current.pop();
-    pastRef.current.push(JSON.stringify(present));
-    setPresent(JSON.parse(next));
-  }, [present, canRedo]);
-
-  const reset = useCallback((state) => {
-    pastRef.current = [];
-    futureRef.current = [];
-    setPresent(state);
+  };
+
+  const set = useCallback((updater, label = 'Edit', key = null) => {
+    const prev = presentRef.current;
+    const next = typeof updater === 'function' ? updater(prev) : updater;
+    if (next === prev) return;
+    const patch = diffHistoryFields(prev, next);
+    const log = logRef.current;
+    if (patch) {
+      let entries = log.entries.slice(0, log.index);
+      const top = entries[entries.length - 1];
+      if (key && top && top.key === key) {
+        // keep the oldest `before` of each field and the newest `after`
+        entries[entries.length - 1] = { ...top, before: { ...patch.before, ...top.before }, after: { ...top.after, ...patch.after } };
+      } else {
+        // the previous entry can no longer merge, so its size is final
+        if (top && top.size == null) entries[entries.length - 1] = { ...top, size: entrySize(top) };
+        let bytes = entries.reduce((acc, e) => acc + e.size, 0);
+        entries.push({ label, key, size: null, ...patch });
+        while (bytes > MAX_HISTORY_BYTES && entries.length > 1) {
+          bytes -= entries[0].size;
+          entries = entries.slice(1);
+        }
+      }
+      logRef.current = { entries, index: entries.length };
+    }
+    commit(next);
+  }, []);
+
+  // Move to the point after `index` entries, applying patches in between
+  const jump = useCallback((index) => {
+    const log = logRef.current;
+    const target = Math.max(0, Math.min(log.entries.length, index));
+    if (target === log.index) return;
+    let state = presentRef.current;
+    for (let i = log.index; i > target; i--) state = { ...state, ...log.entries[i - 1].before };
+    for (let i = log.index; i < target; i++) state = { ...state, ...log.entries[i].after };
+    logRef.current = { ...log, index: target };
+    commit(state);
   }, []);
 
-  return { present, set, undo, redo, reset, canUndo, canRedo };
+  const canUndo = logRef.current.index > 0;
+  const canRedo = logRef.current.index < logRef.current.entries.length;
+
+  const undo = useCallback(() => jump(logRef.current.index - 1), [jump]);
+  const redo = useCallback(() => jump(logRef.current.index + 1), [jump]);
+
+  // Optional `history` ({entries: [{label, before, after}], index}) restores the entries, e.g. from a project file
+  const reset = useCallback((state, history = null) => {
+    const entries = history ? history.entries.map(e => ({ ...e, key: null, size: entrySize(e) })) : [];
+    logRef.current = { entries, index: history ? history.index : 0 };
+    commit(state);
+  }, []);
+
+  // Labels for the history panel, oldest first
+  const entries = logRef.current.entries.map(e => e.label);
+  const index = logRef.current.index;
+
+  // Up to `limit` entries on each side of the current point, as { entries: [{label, before, after}], index }
+  const getHistory = useCallback((limit = Infinity) => {
+    const log = logRef.current;
+    const start = Math.max(0, log.index - limit);
+    return {
+      entries: log.entries.slice(start, log.index + limit).map(({ label, before, after }) => ({ label, before, after })),
+      index: log.index - start,
+    };
+  }, []);
+
+  return { present, set, undo, redo, jump, reset, getHistory, canUndo, canRedo, entries, index };
 }
 
-/******************** Types (JSDoc) ********************/
-/**
- * EditorState shape:
- * {
- *   tileW: number,
- *   tileH: number,
- *   tileMP: MultiPolygon,
- *   draftShape: Array<[x,y]>, // points for currently drawn polygon
- *   mode: 'select'|'draw'|'cutSlideLR'|'cutSlideRL'|'cutSlideTB'|'cutSlideBT'|'booleanAdd'|'booleanSub',
- *   snap: boolean,
- *   gridSize: number,
- *   instances: Array<{id:string, x:number, y:number, rot:number}>,
- * }
- */
+/******************** Project Files ********************/
+// Versioned JSON project format shared by Save/Open and the localStorage autosave:
+// {
+//   format: 'escher-lab-project',
+//   version: number,
+//   savedAt: string, // ISO date
+//   state: { baseKind, baseAngle, tileW, tileH, tileMP, curves, layers, tileFill, prototypes, activePrototype,
+//            palette, fab, curveTol, gridSize, snap, instances, hyper },
+//   history: { entries: Array<{ label, before, after }>, index: number }, // optional, see useHistory
+// }
+// When the schema changes, bump PROJECT_VERSION and add MIGRATIONS[oldVersion], a function that
+// upgrades a project of that version to the next one; older files are upgraded step by step on load.
+const PROJECT_FORMAT = 'escher-lab-project';
+const PROJECT_VERSION = 8;
+const PROJECT_FIELDS = ['baseKind', 'baseAngle', 'tileW', 'tileH', 'tileMP', 'curves', 'layers', 'tileFill', 'prototypes', 'activePrototype', 'palette', 'fab', 'curveTol', 'gridSize', 'snap', 'instances', 'hyper'];
+const MAX_SAVED_HISTORY = 100;
+const AUTOSAVE_KEY = 'escher-lab:autosave';
+const AUTOSAVE_DELAY_MS = 1000;
+
+const MIGRATIONS = {
+  // v2 keeps the true curves behind the flattened tile outline
+  1: (project) => ({ ...project, version: 2, state: { curves: [], curveTol: 0.5, ...project.state } }),
+  // v3 stores history as labeled patches instead of full undo/redo snapshots
+  2: (project) => {
+    if (!project.history) return { ...project, version: 3 };
+    const past = project.history.past || [], future = project.history.future || [];
+    const states = [...past, project.state, ...future.slice().reverse()];
+    const entries = states.slice(1).map((next, i) => {
+      const changed = PROJECT_FIELDS.filter(k => JSON.stringify(states[i][k]) !== JSON.stringify(next[k]));
+      return {
+        label: 'Edit',
+        before: Object.fromEntries(changed.map(k => [k, states[i][k]])),
+        after: Object.fromEntries(changed.map(k => [k, next[k]])),
+      };
+    });
+    return { ...project, version: 3, history: { entries, index: past.length } };
+  },
+  // v4 adds decoration layers
+  3: (project) => ({ ...project, version: 4, state: { layers: DEFAULT_LAYERS, ...project.state } }),
+  // v5 keeps a library of tile prototypes; the existing tile becomes the first one
+  4: (project) => {
+    const tile = { tileFill: TILE_FILLS[0], ...project.state };
+    const proto = { id: 'proto-1', name: 'Tile 1', ...pickPrototypeFields(tile) };
+    return {
+      ...project,
+      version: 5,
+      state: { ...tile, prototypes: [proto], activePrototype: proto.id, instances: (tile.instances || []).map(i => ({ prototypeId: proto.id, ...i })) },
+    };
+  },
+  // v6 adds the auto-coloring palette (instance colors are optional fields)
+  5: (project) => ({ ...project, version: 6, state: { palette: PALETTES[0].id, ...project.state } }),
+  // v7 adds physical units and machine settings for the fabrication exports
+  6: (project) => ({ ...project, version: 7, state: { fab: FAB_DEFAULTS, ...project.state } }),
+  // v8 adds the Circle Limit tile and its disk assembly
+  7: (project) => ({ ...project, version: 8, state: { hyper: initialHyperState(HYPER_DEFAULTS.p, HYPER_DEFAULTS.q, TILE_FILLS[0]), ...project.state } }),
+};
+
+const pickProjectFields = (state) => Object.fromEntries(PROJECT_FIELDS.filter(k => k in state).map(k => [k, state[k]]));
+
+const serializeProject = (state, history) => JSON.stringify({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  state: pickProjectFields({ ...state, prototypes: syncPrototypes(state) }),
+  history: history && saveableHistory(history),
+});
+
+// Patches limited to project fields; entries that only touched the draft are dropped
+const saveableHistory = (history) => {
+  const entries = [];
+  let index = 0;
+  history.entries.forEach((e, i) => {
+    const before = pickProjectFields(e.before);
+    if (Object.keys(before).length === 0) return;
+    entries.push({ label: e.label, before, after: pickProjectFields(e.after) });
+    if (i < history.index) index++;
+  });
+  return { entries, index };
+};
+
+const migrateProject = (project) => {
+  let p = project;
+  while (p.version < PROJECT_VERSION) {
+    const step = MIGRATIONS[p.version];
+    if (!step) throw new Error(`No migration from project version ${p.version}`);
+    p = step(p);
+  }
+  return p;
+};
+
+// Parse and upgrade a project; document fields are merged over `defaults` so UI-only fields stay sane.
+// Returns { state, history, savedAt } or throws with a readable message.
+const parseProject = (text, defaults) => {
+  let raw;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!raw || raw.format !== PROJECT_FORMAT) throw new Error('Not an Escher Tessellation Lab project');
+  if (typeof raw.version !== 'number') throw new Error('Project has no version');
+  if (raw.version > PROJECT_VERSION) throw new Error(`Project version ${raw.version} is newer than this app supports (${PROJECT_VERSION})`);
+  const project = migrateProject(raw);
+  const toState = (doc) => ({ ...defaults, ...pickProjectFields(doc || {}) });
+  const state = toState(project.state);
+  if (!Array.isArray(state.tileMP) || !Array.isArray(state.instances) || !(state.tileW > 0) || !(state.tileH > 0)) {
+    throw new Error('Project is missing tile geometry');
+  }
+  if (!Array.isArray(state.prototypes) || !state.prototypes.some(p => p.id === state.activePrototype)) {
+    throw new Error('Project has no tile library');
+  }
+  const entries = project.history && Array.isArray(project.history.entries) ? project.history.entries : [];
+  const history = entries.length > 0 ? {
+    entries: entries.map(e => ({ label: String(e.label || 'Edit'), before: pickProjectFields(e.before || {}), after: pickProjectFields(e.after || {}) })),
+    index: Math.max(0, Math.min(entries.length, project.history.index | 0)),
+  } : null;
+  return { state, history, savedAt: project.savedAt };
+};
 
 /******************** Main Component ********************/
 export default function EscherLab() {
-  const initial = useMemo(() => ({
-    tileW: 240,
-    tileH: 160,
-    tileMP: rectMultiPolygon(240,160),
-    draftShape: [],
-    mode: 'draw',
-    snap: true,
-    gridSize: 16,
-    instances: [],
-  }), []);
+  const initial = useMemo((): EditorState => {
+    const tile: Omit<Prototype, 'id' | 'name'> = {
+      baseKind: 'rect',
+      baseAngle: 60,
+      tileW: 240,
+      tileH: 160,
+      tileMP: rectMultiPolygon(240,160),
+      curves: [],
+      layers: DEFAULT_LAYERS,
+      tileFill: TILE_FILLS[0],
+    };
+    return {
+      ...tile,
+      prototypes: [{ id: 'proto-1', name: 'Tile 1', ...tile }],
+      activePrototype: 'proto-1',
+      draftShape: [],
+      drawSeg: 'L',
+      curveTol: 0.5,
+      activeLayer: DEFAULT_LAYERS[0].id,
+      paintTool: 'brush',
+      paintColor: '#0f172a',
+      paintWidth: 3,
+      mode: 'draw',
+      turnPivot: 'm0',
+      turnAngle: 180,
+      glideDir: 'LR',
+      snap: true,
+      gridSize: 16,
+      palette: PALETTES[0].id,
+      fab: FAB_DEFAULTS,
+      instances: [],
+      hyper: initialHyperState(HYPER_DEFAULTS.p, HYPER_DEFAULTS.q, TILE_FILLS[0]),
+      hyperDraft: [],
+    };
+  }, []);
 
-  const { present, set, undo, redo, reset, canUndo, canRedo } = useHistory(initial);
-  const { tileW, tileH, tileMP, draftShape, mode, snap, gridSize, instances } = present;
+  const { present, set, undo, redo, jump, reset, getHistory, canUndo, canRedo, entries: historyLabels, index: historyIndex } = useHistory(initial);
+  const [showHistory, setShowHistory] = useState(false);
+  const { baseKind, baseAngle, tileW, tileH, tileMP, draftShape, drawSeg, curveTol, curves, layers, tileFill, prototypes, activePrototype, paintTool, paintColor, paintWidth, mode, turnPivot, turnAngle, glideDir, snap, gridSize, palette, fab, instances, hyper, hyperDraft } = present;
+  const base = useMemo(() => baseTile(baseKind, tileW, tileH, baseAngle), [baseKind, tileW, tileH, baseAngle]);
+  // The pivot fields are not part of the undo history or project files, so they can trail a base change
+  const turn = useMemo(() => validTurn(base, turnPivot, turnAngle), [base, turnPivot, turnAngle]);
+  const workBounds = useMemo(() => mpBounds(baseWorkRegion(base)), [base]);
+  const [selectedVertex, setSelectedVertex] = useState(null); // [x,y] of the vertex picked in 'select' mode
+  const validity = useMemo(() => checkTessellation(tileMP, base), [tileMP, base]);
 
   const editorSvgRef = useRef(null);
   const assemblySvgRef = useRef(null);
@@ -166,19 +856,29 @@ export default function EscherLab() {
         e.preventDefault();
         redo();
       }
-      if (e.key.toLowerCase() === 'r') {
+      if (e.key.toLowerCase() === 'r' && !e.ctrlKey && !e.metaKey && !e.altKey && !isTypingTarget(e.target)) {
         e.preventDefault();
-        reset({ ...initial });
+        // back to a blank document as one undoable step; settings such as snap, grid and fab stay
+        set(s => ({ ...s, ...Object.fromEntries(HISTORY_FIELDS.map(k => [k, initial[k]])) }), 'Reset project');
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && mode === 'select' && selectedVertex && !isTypingTarget(e.target)) {
+        e.preventDefault();
+        // delete the vertex together with its twins on the partner edges
+        set(s => {
+          const vectors = baseOf(s).slides.map(sl => sl.v);
+          return { ...s, tileMP: deleteVertices(s.tileMP, linkedVertices(s.tileMP, selectedVertex, vectors)) };
+        }, 'Delete vertex');
+        setSelectedVertex(null);
       }
       if (e.key === 'Enter' && mode === 'draw' && draftShape.length >= 3) {
         e.preventDefault();
         // close polygon automatically
-        set(s => ({ ...s, draftShape: [...s.draftShape, s.draftShape[0]] }));
+        set(s => ({ ...s, draftShape: closeIfNeeded(s.draftShape) }), 'Close draft');
       }
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [undo, redo, reset, initial, mode, draftShape.length, set]);
+  }, [undo, redo, initial, mode, draftShape.length, selectedVertex, set]);
 
   // Helpers for snapping and clamping
   const snapPoint = useCallback((p) => {
@@ -189,130 +889,598 @@ export default function EscherLab() {
     return [sx, sy];
   }, [snap, gridSize]);
 
-  /******** Drawing in Tile Editor ********/
-  const onEditorClick = useCallback((e) => {
-    if (mode !== 'draw') return;
+  // Mouse event -> editor coordinates
+  const editorPoint = useCallback((e) => {
     const svg = editorSvgRef.current;
-    if (!svg) return;
+    if (!svg) return null;
     const pt = svg.createSVGPoint();
     pt.x = e.clientX; pt.y = e.clientY;
     const screenCTM = svg.getScreenCTM();
     const local = pt.matrixTransform(screenCTM.inverse());
-    let p = [local.x, local.y];
-    // Clamp inside tile bounds
-    p[0] = Math.max(0, Math.min(tileW, p[0]));
-    p[1] = Math.max(0, Math.min(tileH, p[1]));
-    p = snapPoint(p);
-    set(s => ({ ...s, draftShape: [...s.draftShape, p] }));
-  }, [mode, tileW, tileH, snapPoint, set]);
+    return [local.x, local.y];
+  }, []);
 
-  const clearDraft = useCallback(() => set(s => ({ ...s, draftShape: [] })), [set]);
+  /******** Decoration Layers ********/
+  const gestureRef = useRef(0); // numbers drags so each one merges into a single history entry
+  const nextGestureKey = () => `gesture-${++gestureRef.current}`;
+  const brushRef = useRef(null); // {key} while a brush stroke is being drawn
 
-  // Apply boolean ops using the current draft shape
-  const applyBoolean = useCallback((op) => {
+  // Painting goes into the active layer, or the top one when that id is gone (e.g. after opening a project)
+  const activeLayerId = (s) => (s.layers.find(l => l.id === s.activeLayer) || s.layers[s.layers.length - 1]).id;
+  const currentLayerId = activeLayerId(present);
+  const mapActiveLayer = (s, fn) => {
+    const id = activeLayerId(s);
+    return { ...s, layers: s.layers.map(l => l.id === id ? { ...l, ...fn(l) } : l) };
+  };
+
+  const startBrush = useCallback((e) => {
+    const p = editorPoint(e);
+    if (!p) return;
+    const key = nextGestureKey();
+    brushRef.current = { key };
+    set(s => mapActiveLayer(s, l => ({ items: [...l.items, { type: 'stroke', points: [p], color: s.paintColor, width: s.paintWidth }] })), 'Paint stroke', key);
+  }, [editorPoint, set]);
+
+  const onBrushDrag = useCallback((e) => {
+    const q = editorPoint(e);
+    if (!q) return;
     set(s => {
-      if (s.draftShape.length < 3) return s;
-      const clean = closeIfNeeded(s.draftShape);
-      const mp = simplePolygonToMP(clean);
-      let nextTile = s.tileMP;
-      if (op === 'add') nextTile = mpUnion(s.tileMP, mp, s.tileW, s.tileH);
-      if (op === 'sub') nextTile = mpDiff(s.tileMP, mp, s.tileW, s.tileH);
-      return { ...s, tileMP: nextTile, draftShape: [] };
-    });
-  }, [set]);
+      const layer = s.layers.find(l => l.id === activeLayerId(s));
+      const last = layer.items[layer.items.length - 1];
+      if (!last || last.type !== 'stroke' || distance(last.points[last.points.length - 1], q) < MIN_STROKE_STEP) return s;
+      return mapActiveLayer(s, l => ({ items: [...l.items.slice(0, -1), { ...last, points: [...last.points, q] }] }));
+    }, 'Paint stroke', brushRef.current.key);
+  }, [editorPoint, set]);
 
-  // Cut & Slide helpers
-  const applyCutSlide = useCallback((direction) => {
-    // direction: 'LR' | 'RL' | 'TB' | 'BT'
+  // 'paint' mode with the shape tool: Apply fills the draft into the active layer
+  const fillDraft = useCallback(() => {
     set(s => {
       if (s.draftShape.length < 3) return s;
-      const clean = closeIfNeeded(s.draftShape);
-      const cutMP = simplePolygonToMP(clean);
-      const { tileW, tileH } = s;
-      let tmp = mpDiff(s.tileMP, cutMP, tileW, tileH); // remove from source edge side
-      let moved = cutMP;
-      if (direction === 'LR') moved = translateMP(cutMP, tileW, 0);
-      if (direction === 'RL') moved = translateMP(cutMP, -tileW, 0);
-      if (direction === 'TB') moved = translateMP(cutMP, 0, tileH);
-      if (direction === 'BT') moved = translateMP(cutMP, 0, -tileH);
-      tmp = mpUnion(tmp, moved, tileW, tileH);
-      return { ...s, tileMP: tmp, draftShape: [] };
-    });
+      return { ...mapActiveLayer(s, l => ({ items: [...l.items, { type: 'fill', draft: s.draftShape, color: s.paintColor }] })), draftShape: [] };
+    }, 'Fill shape');
   }, [set]);
 
-  const closeIfNeeded = (pts) => {
-    if (pts.length <= 2) return pts;
-    const first = pts[0];
-    const last = pts[pts.length - 1];
-    if (distance(first, last) > 1e-6) return [...pts, first];
-    return pts;
+  const updateLayer = (id, fn, label, key = null) => set(s => ({ ...s, layers: s.layers.map(l => l.id === id ? { ...l, ...fn(l) } : l) }), label, key);
+  const addLayer = () => {
+    const id = `layer-${newId()}`;
+    set(s => ({ ...s, layers: [...s.layers, { id, name: `Layer ${s.layers.length + 1}`, visible: true, items: [] }], activeLayer: id }), 'Add layer');
   };
+  const removeLayer = (id) => set(s => s.layers.length > 1 ? { ...s, layers: s.layers.filter(l => l.id !== id) } : s, 'Delete layer');
+  // dir = +1 moves a layer up (drawn later), -1 down
+  const moveLayer = (id, dir) => set(s => {
+    const i = s.layers.findIndex(l => l.id === id), j = i + dir;
+    if (i < 0 || j < 0 || j >= s.layers.length) return s;
+    const next = s.layers.slice();
+    [next[i], next[j]] = [next[j], next[i]];
+    return { ...s, layers: next };
+  }, 'Reorder layers');
+
+  // Visible layers as SVG elements; built once per prototype (see protoShapes) and reused by every instance
+  const renderLayers = (layers) => layers.filter(l => l.visible).map(l => l.items.map((item, i) => item.type === 'stroke'
+    ? <path key={`${l.id}-${i}`} d={decorationPath(item)} fill="none" stroke={item.color} strokeWidth={item.width} strokeLinecap="round" strokeLinejoin="round"/>
+    : <path key={`${l.id}-${i}`} d={decorationPath(item)} fill={item.color} fillRule="evenodd"/>));
+
+  /******** Drawing in Tile Editor ********/
+  const onEditorClick = useCallback(() => {
+    if (mode === 'select') setSelectedVertex(null);
+  }, [mode]);
+
+  const drafting = mode === 'draw' || (mode === 'paint' && paintTool === 'shape');
+
+  // Where a draft point lands: clamped inside the working area (base tile plus its edge neighbours), then
+  // pulled onto the tile's vertices and edges or a twin on the partner edge, else rounded to the grid.
+  // Returns { kind, p }; kind is null when no object snap applied.
+  const draftSnap = useCallback((p) => {
+    const q = [
+      Math.max(workBounds[0], Math.min(workBounds[2], p[0])),
+      Math.max(workBounds[1], Math.min(workBounds[3], p[1])),
+    ];
+    const hit = snap ? objectSnap(q, tileMP, base.slides.map(sl => sl.v), draftShape) : null;
+    return hit || { kind: null, p: snapPoint(q) };
+  }, [workBounds, snap, tileMP, base, draftShape, snapPoint]);
+
+  // New draft point for the current segment type; curves start straight until dragged
+  const newDraftPoint = useCallback((p, index) => {
+    if (drawSeg === 'C') return [p[0], p[1], { h: [p[0], p[1]] }];
+    if (drawSeg === 'A' && index > 0) return [p[0], p[1], { arc: 0 }];
+    return p;
+  }, [drawSeg]);
+
+  // Draft points are placed on mouse down so Bézier handles and arc bulges can be dragged out
+  const draftDragRef = useRef(null); // {index, type, key}
+  const [snapHint, setSnapHint] = useState(null); // object snap under the cursor, drawn as a marker
+  const [draftCursor, setDraftCursor] = useState(null); // keyboard drafting cursor [x,y]
+  // The cursor starts at the last draft point, or the middle of the tile
+  const cursorOrigin = () => {
+    if (draftCursor) return draftCursor;
+    if (draftShape.length > 0) return draftShape[draftShape.length - 1].slice(0, 2);
+    const [x0, y0, x1, y1] = mpBounds(tileMP);
+    return [(x0 + x1) / 2, (y0 + y1) / 2];
+  };
+
+  const onEditorMouseDown = useCallback((e) => {
+    if (mode === 'paint' && paintTool === 'brush') return startBrush(e);
+    if (!drafting) return;
+    const p = editorPoint(e);
+    if (!p) return;
+    const index = draftShape.length;
+    const pt = newDraftPoint(draftSnap(p).p, index);
+    const key = nextGestureKey();
+    if (pt.length > 2) draftDragRef.current = { index, type: drawSeg, key };
+    set(s => ({ ...s, draftShape: [...s.draftShape, pt] }), 'Add draft point', key);
+    setDraftCursor(null);
+  }, [mode, paintTool, drafting, editorPoint, draftSnap, newDraftPoint, draftShape.length, drawSeg, set, startBrush]);
+
+  // Keyboard drafting: arrows move the cursor (Shift by a grid step), Space places a point there
+  const onEditorKeyDown = useCallback((e) => {
+    if (!drafting) return;
+    const step = e.shiftKey ? gridSize : 1;
+    const moves = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+    if (moves[e.key]) {
+      e.preventDefault();
+      e.stopPropagation(); // keep the assembly's nudge and pan keys out of it
+      const from = cursorOrigin();
+      const [dx, dy] = moves[e.key];
+      const to = [
+        Math.max(workBounds[0], Math.min(workBounds[2], from[0] + dx)),
+        Math.max(workBounds[1], Math.min(workBounds[3], from[1] + dy)),
+      ];
+      setDraftCursor(to);
+      setSnapHint(draftSnap(to));
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      e.stopPropagation();
+      if (!draftCursor) return;
+      const { p } = draftSnap(draftCursor);
+      const pt = newDraftPoint(p, draftShape.length);
+      set(s => ({ ...s, draftShape: [...s.draftShape, pt] }), 'Add draft point');
+      setDraftCursor(p);
+    } else if (e.key === 'Escape') {
+      setDraftCursor(null);
+      setSnapHint(null);
+    }
+  }, [drafting, gridSize, tileMP, draftCursor, draftShape, workBounds, draftSnap, newDraftPoint, set]);
+
+  useEffect(() => {
+    if (!drafting) { setDraftCursor(null); setSnapHint(null); }
+  }, [drafting]);
+
+  // Typed coordinates for a draft point; a closed draft's first and last points move together
+  const [coordIndex, setCoordIndex] = useState(null); // draft point being edited, null for a new point
+  const coordPoint = coordIndex !== null ? draftShape[coordIndex] : null;
+  const setDraftCoord = (axis, value) => {
+    if (!Number.isFinite(value)) return;
+    if (!coordPoint) {
+      const from = cursorOrigin();
+      setDraftCursor(axis === 0 ? [value, from[1]] : [from[0], value]);
+      return;
+    }
+    const i = coordIndex;
+    set(s => {
+      const pt = s.draftShape[i];
+      if (!pt) return s;
+      const x = axis === 0 ? value : pt[0], y = axis === 1 ? value : pt[1];
+      const last = s.draftShape.length - 1;
+      const linked = isClosedDraft(s.draftShape) && (i === 0 || i === last) ? [0, last] : [i];
+      const draftShape = s.draftShape.map((q, j) => linked.includes(j) ? moveDraftPoint(q, x, y) : q);
+      return { ...s, draftShape };
+    }, 'Move draft point', `draftPoint:${i}`);
+  };
+  const addTypedPoint = () => {
+    if (!draftCursor) return;
+    set(s => ({ ...s, draftShape: [...s.draftShape, newDraftPoint(draftCursor, s.draftShape.length)] }), 'Add draft point');
+  };
+
+  const onDraftDrag = useCallback((e) => {
+    const drag = draftDragRef.current;
+    const q = editorPoint(e);
+    if (!q) return;
+    set(s => {
+      const pt = s.draftShape[drag.index];
+      if (!pt) return s;
+      let extra;
+      if (drag.type === 'C') extra = { h: q };
+      else {
+        // signed distance of the cursor from the chord, positive to its left
+        const a = s.draftShape[drag.index - 1];
+        const len = distance(a, pt) || 1;
+        extra = { arc: ((q[0] - a[0]) * (pt[1] - a[1]) - (q[1] - a[1]) * (pt[0] - a[0])) / len };
+      }
+      const draftShape = s.draftShape.slice();
+      draftShape[drag.index] = [pt[0], pt[1], extra];
+      return { ...s, draftShape };
+    }, 'Add draft point', drag.key);
+  }, [editorPoint, set]);
+
+  /******** Vertex Editing ('select' mode) ********/
+  const vertexDragRef = useRef(null); // {group, start, startMP, key}
+
+  const onVertexMouseDown = useCallback((e, v) => {
+    e.stopPropagation();
+    setSelectedVertex(v);
+    const group = linkedVertices(tileMP, v, base.slides.map(sl => sl.v));
+    vertexDragRef.current = { group, start: v, startMP: tileMP, key: nextGestureKey() };
+  }, [tileMP, base]);
+
+  const onEditorMouseMove = useCallback((e) => {
+    if (brushRef.current) return onBrushDrag(e);
+    if (draftDragRef.current) return onDraftDrag(e);
+    const drag = vertexDragRef.current;
+    const p = editorPoint(e);
+    if (!p) return;
+    if (!drag) {
+      if (drafting) setSnapHint(draftSnap(p));
+      return;
+    }
+    const target = snapPoint(p);
+    const dx = target[0] - drag.start[0], dy = target[1] - drag.start[1];
+    set(s => ({ ...s, tileMP: moveVertices(drag.startMP, drag.group, dx, dy) }), 'Move vertex', drag.key);
+    setSelectedVertex(target);
+  }, [editorPoint, snapPoint, set, onDraftDrag, onBrushDrag, drafting, draftSnap]);
+
+  // Double-click an edge to insert a vertex (and its twin on the partner edge)
+  const onEditorDoubleClick = useCallback((e) => {
+    if (mode !== 'select') return;
+    const p = editorPoint(e);
+    if (!p) return;
+    set(s => {
+      const q = nearestOnMP(s.tileMP, p);
+      if (!q || distance(p, q) > 8) return s;
+      return { ...s, tileMP: insertLinkedVertex(s.tileMP, q, baseOf(s).slides.map(sl => sl.v)) };
+    }, 'Insert vertex');
+  }, [mode, editorPoint, set]);
+
+  useEffect(() => {
+    const onUp = () => { vertexDragRef.current = null; draftDragRef.current = null; brushRef.current = null; };
+    window.addEventListener('mouseup', onUp);
+    return () => window.removeEventListener('mouseup', onUp);
+  }, []);
+
+  // Positions linked to the selected vertex, highlighted while editing
+  const linkedToSelected = useMemo(() => (
+    mode === 'select' && selectedVertex ? linkedVertices(tileMP, selectedVertex, base.slides.map(sl => sl.v)) : []
+  ), [mode, selectedVertex, tileMP, base]);
+
+  const clearDraft = useCallback(() => set(s => ({ ...s, draftShape: [] }), 'Clear draft'), [set]);
+
+  // Tile operations throw a readable message instead of leaving the tile untouched; it stays up until the
+  // next successful op or until the draft or mode changes
+  const [opError, setOpError] = useState(null);
+  const tryOp = useCallback((fn) => {
+    try {
+      fn();
+      setOpError(null);
+    } catch (e) {
+      setOpError(e.message);
+    }
+  }, []);
+  useEffect(() => setOpError(null), [draftShape, mode]);
+
+  // Apply boolean ops using the current draft shape
+  const applyBoolean = useCallback((op) => tryOp(() => {
+    set(s => applyTileOp(s, { type: op === 'add' ? 'union' : 'subtract', draft: s.draftShape }), op === 'add' ? 'Add shape' : 'Subtract shape');
+  }), [set, tryOp]);
+
+  // History label for a slide direction, e.g. 'L→R'
+  const slideName = useCallback((id) => {
+    const slide = base.slides.find(sl => sl.id === id);
+    return slide ? slide.label.replace(/^.*\((.*)\)$/, '$1') : id;
+  }, [base]);
+
+  // Cut & Slide: direction is a slide id of the current base tile, e.g. 'LR' | 'RL' | 'TB' | 'BT'
+  const applyCutSlide = useCallback((direction) => tryOp(() => {
+    set(s => applyTileOp(s, { type: 'cutSlide', slide: direction, draft: s.draftShape }), `Cut ${slideName(direction)}`);
+  }), [set, tryOp, slideName]);
+
+  // Cut & Turn: remove the draft from the tile and rotate it about the chosen pivot
+  const applyCutTurn = useCallback(() => tryOp(() => {
+    set(s => applyTileOp(s, { type: 'cutTurn', pivot: turn.turnPivot, angle: turn.turnAngle, draft: s.draftShape }), `Turn ${Math.abs(turn.turnAngle)}°`);
+  }), [set, tryOp, turn]);
+
+  // Glide reflection: cut from one edge, mirror across the tile's axis along the glide, slide to the opposite edge
+  const applyCutGlide = useCallback((direction) => tryOp(() => {
+    set(s => applyTileOp(s, { type: 'cutGlide', slide: direction, draft: s.draftShape }), `Glide ${slideName(direction)}`);
+  }), [set, tryOp, slideName]);
+
+  // Checks the draft against what Apply would do in the current mode, so problems show before applying
+  const draftIssues = useMemo(() => {
+    if (draftShape.length < 3) return [];
+    const op = mode === 'booleanAdd' ? { type: 'union' as const }
+      : mode === 'booleanSub' ? { type: 'subtract' as const }
+      : mode.startsWith('cutSlide') ? { type: 'cutSlide' as const, slide: mode.slice('cutSlide'.length) }
+      : mode === 'cutTurn' ? { type: 'cutTurn' as const, pivot: turn.turnPivot, angle: turn.turnAngle }
+      : mode === 'cutGlide' ? { type: 'cutGlide' as const, slide: glideDir }
+      : null;
+    return op ? checkTileOp(present, { ...op, draft: draftShape }) : checkDraft(draftShape, curveTol);
+  }, [present, draftShape, mode, turn, glideDir, curveTol]);
+  const repairable = draftIssues.some(i => i.code === 'duplicate' || i.code === 'collinear');
+  const repairCurrentDraft = () => set(s => ({ ...s, draftShape: repairDraft(s.draftShape) }), 'Repair draft');
 
   /******** Assembly (manual tiling) ********/
-  // Add a new instance of the constructed tile
-  const addInstance = useCallback(() => {
+  // Every prototype with the live edits of the active one, and what instances need to draw and hit-test it
+  const allPrototypes = useMemo(() => syncPrototypes({ prototypes, activePrototype, baseKind, baseAngle, tileW, tileH, tileMP, curves, layers, tileFill }),
+    [prototypes, activePrototype, baseKind, baseAngle, tileW, tileH, tileMP, curves, layers, tileFill]);
+  const protoShapes = useMemo(() => Object.fromEntries(allPrototypes.map(p => [p.id, {
+    proto: p, mp: p.tileMP, center: mpCentroid(p.tileMP), path: mpToPath(p.tileMP), layers: renderLayers(p.layers),
+  }])), [allPrototypes]);
+  const shapeOf = useCallback((inst) => protoShapes[prototypeOf(allPrototypes, inst).id], [protoShapes, allPrototypes]);
+  const [selectedIds, setSelectedIds] = useState([]); // selected assembly instances (UI only, not in history)
+  const [marquee, setMarquee] = useState(null); // [x0, y0, x1, y1] while rubber-band selecting
+  const newId = () => Math.random().toString(36).slice(2);
+
+  // Designer: switch, create, branch and remove prototypes (removal only when no instance uses it)
+  const switchPrototype = (id) => { setSelectedVertex(null); set(s => activatePrototype(s, id), 'Switch tile'); };
+  const addPrototype = (copy) => {
+    const id = `proto-${newId()}`;
     set(s => {
-      const id = Math.random().toString(36).slice(2);
-      // Place new tile in the center of the assembly view
-      const canvasW = 1200;
-      const canvasH = 800;
-      const newX = canvasW / 2 - s.tileW / 2;
-      const newY = canvasH / 2 - s.tileH / 2;
-      return { ...s, instances: [...s.instances, { id, x: newX, y: newY, rot: 0 }] };
-    });
-  }, [set]);
+      const protos = syncPrototypes(s);
+      const source = protos.find(p => p.id === s.activePrototype);
+      const n = protos.length + 1;
+      const proto = copy
+        ? { ...source, id, name: `${source.name} copy` }
+        : { ...source, id, name: `Tile ${n}`, tileMP: baseRegion(baseOf(source)), curves: [], layers: DEFAULT_LAYERS, tileFill: TILE_FILLS[(n - 1) % TILE_FILLS.length] };
+      return activatePrototype({ ...s, prototypes: [...protos, proto] }, id);
+    }, copy ? 'Duplicate tile' : 'New tile');
+  };
+  const activeInUse = instances.some(i => prototypeOf(allPrototypes, i).id === activePrototype);
+  const deletePrototype = () => set(s => {
+    if (s.prototypes.length <= 1 || s.instances.some(i => prototypeOf(s.prototypes, i).id === s.activePrototype)) return s;
+    const next = activatePrototype(s, s.prototypes.find(p => p.id !== s.activePrototype).id);
+    return { ...next, prototypes: next.prototypes.filter(p => p.id !== s.activePrototype) };
+  }, 'Delete tile');
+  const renamePrototype = (name) => set(s => ({ ...s, prototypes: s.prototypes.map(p => p.id === s.activePrototype ? { ...p, name } : p) }), 'Rename tile', `rename:${activePrototype}`);
 
-  const clearInstances = useCallback(() => set(s => ({ ...s, instances: [] })), [set]);
+  // Prototype that "Place Tile" adds (UI only); follows the designer until one is picked
+  const [placeId, setPlaceId] = useState(null);
+  const placePrototype = allPrototypes.find(p => p.id === placeId) || protoShapes[activePrototype].proto;
 
-  // Drag logic for instances
-  const draggingRef = useRef(null); // {id, offsetX, offsetY}
+  /******** Assembly View (pan / zoom, UI only) ********/
+  const [view, setView] = useState({ x: 0, y: 0, zoom: 1 });
+  const [spaceDown, setSpaceDown] = useState(false); // space held: dragging pans instead of selecting
+  const panRef = useRef(null); // {client:[x,y], view} while panning
 
-  const onAssemblyMouseDown = useCallback((e) => {
-    const svg = assemblySvgRef.current; if (!svg) return;
-    const target = e.target;
-    const id = target.getAttribute('data-id');
-    if (!id) return;
+  // Wheel zoom about the cursor; added by hand because React's wheel listeners are passive
+  useEffect(() => {
+    const svg = assemblySvgRef.current;
+    if (!svg) return;
+    const onWheel = (e) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      setView(v => zoomViewAt(v, Math.exp(-e.deltaY * 0.0015), clientToWorld(v, e, rect)));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Space pans only while the assembly has focus, or the pointer is over it and nothing else has focus, so
+  // elsewhere Space still presses focused buttons and scrolls the page
+  const pointerOnAssemblyRef = useRef(false);
+  useEffect(() => {
+    const onKey = (e) => {
+      if (e.code !== 'Space') return;
+      if (e.type === 'keyup') { setSpaceDown(false); return; }
+      const svg = assemblySvgRef.current;
+      const focused = svg && svg.contains(e.target);
+      if (!focused && !(pointerOnAssemblyRef.current && e.target === document.body)) return;
+      e.preventDefault();
+      setSpaceDown(true);
+    };
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    return () => { window.removeEventListener('keydown', onKey); window.removeEventListener('keyup', onKey); };
+  }, []);
+
+  // Bounding box of all placed tiles, or null when there are none
+  const contentBounds = useCallback(() => instances.length === 0 ? null
+    : unionBounds(instances.map(i => mpBounds(instanceMP(i, shapeOf(i).mp, shapeOf(i).center)))), [instances, shapeOf]);
+  const fitAll = () => {
+    const b = contentBounds();
+    if (b) setView(fitView(b, 40));
+  };
+  const zoomBy = (factor) => setView(v => {
+    const [x, y, w, h] = viewBoxOf(v);
+    return zoomViewAt(v, factor, [x + w/2, y + h/2]);
+  });
+
+  // Add a new instance of the chosen prototype, centred in the view
+  const addInstance = useCallback((flip = false) => {
+    const id = newId();
+    const proto = placePrototype;
+    const [vx, vy, vw, vh] = viewBoxOf(view);
+    set(s => {
+      const newX = vx + vw / 2 - proto.tileW / 2;
+      const newY = vy + vh / 2 - proto.tileH / 2;
+      return { ...s, instances: [...s.instances, { id, prototypeId: proto.id, x: newX, y: newY, rot: 0, flip }] };
+    }, flip ? `Add mirrored ${proto.name}` : `Add ${proto.name}`);
+    setSelectedIds([id]);
+  }, [set, placePrototype, view]);
+
+  const clearInstances = useCallback(() => { set(s => ({ ...s, instances: [] }), 'Clear assembly'); setSelectedIds([]); }, [set]);
+
+  // Apply `fn` to every selected instance; repeated calls with the same `key` share one history entry
+  const updateSelected = useCallback((fn, label, key = null) => {
+    if (selectedIds.length === 0) return;
+    set(s => ({ ...s, instances: s.instances.map(i => selectedIds.includes(i.id) ? { ...i, ...fn(i, s) } : i) }), label, key && `${key}:${selectedIds.join(',')}`);
+  }, [selectedIds, set]);
+
+  const rotateSelected = useCallback((deg) => updateSelected(i => ({ rot: normalizeAngle(i.rot + deg) }), 'Rotate tile'), [updateSelected]);
+  const setSelectedRotation = useCallback((deg) => updateSelected(() => ({ rot: normalizeAngle(deg) }), 'Rotate tile', 'rotation'), [updateSelected]);
+  const flipSelected = useCallback(() => updateSelected(i => ({ flip: !i.flip }), 'Flip tile'), [updateSelected]);
+  const nudgeSelected = useCallback((dx, dy) => updateSelected(i => ({ x: i.x + dx, y: i.y + dy }), 'Move tile', 'nudge'), [updateSelected]);
+
+  // Copies land one lattice step to the right so they are ready to fit
+  const duplicateSelected = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    const copies = instances.filter(i => selectedIds.includes(i.id)).map(i => ({ ...i, id: newId() }));
+    set(s => {
+      const protos = syncPrototypes(s);
+      return { ...s, instances: [...s.instances, ...copies.map(c => {
+        const [a] = baseOf(prototypeOf(protos, c)).lattice;
+        return { ...c, x: c.x + a[0], y: c.y + a[1] };
+      })] };
+    }, 'Duplicate tile');
+    setSelectedIds(copies.map(c => c.id));
+  }, [instances, selectedIds, set]);
+
+  const deleteSelected = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    set(s => ({ ...s, instances: s.instances.filter(i => !selectedIds.includes(i.id)) }), 'Delete tile');
+    setSelectedIds([]);
+  }, [selectedIds, set]);
+
+  // Auto Color and Check Fit report polygon engine failures here; cleared with the fit report
+  const [assemblyError, setAssemblyError] = useState(null);
+
+  // Auto Color: recolor every tile that has no hand-picked (pinned) color
+  const autoColor = useCallback(() => {
+    const colors = (PALETTES.find(p => p.id === palette) || PALETTES[0]).colors;
+    const shapes = instances.map(i => instanceMP(i, shapeOf(i).mp, shapeOf(i).center));
+    const fixed = instances.map(i => i.pinned ? colors.indexOf(i.color) : undefined);
+    let adjacency;
+    try {
+      adjacency = assemblyAdjacency(shapes);
+      setAssemblyError(null);
+    } catch (e) {
+      setAssemblyError(`Auto Color stopped: ${e.message}`);
+      return;
+    }
+    const result = colorAssembly(adjacency, colors.length, fixed);
+    const byId = Object.fromEntries(instances.map((i, k) => [i.id, colors[result[k]]]));
+    set(s => ({ ...s, instances: s.instances.map(i => i.pinned || !byId[i.id] ? i : { ...i, color: byId[i.id] }) }), 'Auto color');
+  }, [instances, palette, shapeOf, set]);
+  const clearColors = useCallback(() => set(s => ({ ...s, instances: s.instances.map(({ color, pinned, ...i }) => i) }), 'Clear colors'), [set]);
+  const colorSelected = useCallback((color) => updateSelected(() => ({ color, pinned: true }), 'Color tile', 'color'), [updateSelected]);
+  const unpinSelected = useCallback(() => updateSelected(() => ({ pinned: false }), 'Unpin color'), [updateSelected]);
+
+  // Fit report from "Check fit"; cleared whenever the assembly or the tile changes
+  const [fitReport, setFitReport] = useState(null);
+  useEffect(() => { setFitReport(null); setAssemblyError(null); }, [instances, protoShapes]);
+  const checkFit = useCallback(() => {
+    try {
+      setFitReport(checkAssemblyFit(instances, shapeOf));
+      setAssemblyError(null);
+    } catch (e) {
+      setAssemblyError(`Check Fit stopped: ${e.message}`);
+    }
+  }, [instances, shapeOf]);
+
+  // Drag logic for instances: the grabbed tile snaps, the rest of the selection follows by the same offset
+  const draggingRef = useRef(null); // {ids, anchorId, start:[x,y], origins:{id:[x,y]}, key}
+  const marqueeRef = useRef(null); // {start:[x,y], additive, rect}
+
+  const assemblyPoint = (e) => {
+    const svg = assemblySvgRef.current; if (!svg) return null;
     const pt = svg.createSVGPoint(); pt.x = e.clientX; pt.y = e.clientY;
     const screenCTM = svg.getScreenCTM();
     const local = pt.matrixTransform(screenCTM.inverse());
+    return [local.x, local.y];
+  };
 
-    set(s => {
-      const inst = s.instances.find(i => i.id === id);
-      if (!inst) return s;
-      const off = [local.x - inst.x, local.y - inst.y];
-      draggingRef.current = { id, off };
-      return s;
-    });
-  }, [set]);
+  const onAssemblyMouseDown = useCallback((e) => {
+    if (spaceDown || e.button === 1) {
+      e.preventDefault();
+      panRef.current = { client: [e.clientX, e.clientY], view };
+      return;
+    }
+    const p = assemblyPoint(e); if (!p) return;
+    setSelectedVertex(null);
+    const inst = hitInstance(instances, p, shapeOf);
+    if (!inst) {
+      // Empty space starts a marquee; shift keeps the current selection
+      marqueeRef.current = { start: p, additive: e.shiftKey, rect: null };
+      if (!e.shiftKey) setSelectedIds([]);
+      return;
+    }
+    let ids = selectedIds;
+    if (e.shiftKey) {
+      ids = ids.includes(inst.id) ? ids.filter(id => id !== inst.id) : [...ids, inst.id];
+      setSelectedIds(ids);
+      if (!ids.includes(inst.id)) return;
+    } else if (!ids.includes(inst.id)) {
+      ids = [inst.id];
+      setSelectedIds(ids);
+    }
+    const origins = Object.fromEntries(instances.filter(i => ids.includes(i.id)).map(i => [i.id, [i.x, i.y]]));
+    draggingRef.current = { ids, anchorId: inst.id, start: p, origins, key: nextGestureKey() };
+  }, [instances, shapeOf, selectedIds, spaceDown, view]);
 
   const onAssemblyMouseMove = useCallback((e) => {
+    const pan = panRef.current;
+    if (pan) {
+      const rect = assemblySvgRef.current.getBoundingClientRect();
+      const k = VIEWPORT_W / rect.width / pan.view.zoom;
+      setView({ ...pan.view, x: pan.view.x - (e.clientX - pan.client[0]) * k, y: pan.view.y - (e.clientY - pan.client[1]) * k });
+      return;
+    }
+    const m = marqueeRef.current;
+    if (m) {
+      const p = assemblyPoint(e); if (!p) return;
+      m.rect = [Math.min(m.start[0], p[0]), Math.min(m.start[1], p[1]), Math.max(m.start[0], p[0]), Math.max(m.start[1], p[1])];
+      setMarquee(m.rect);
+      return;
+    }
     if (!draggingRef.current) return;
-    const svg = assemblySvgRef.current; if (!svg) return;
-    const pt = svg.createSVGPoint(); pt.x = e.clientX; pt.y = e.clientY;
-    const screenCTM = svg.getScreenCTM();
-    const local = pt.matrixTransform(screenCTM.inverse());
-    const { id, off } = draggingRef.current;
+    const local = assemblyPoint(e); if (!local) return;
+    const { ids, anchorId, start, origins, key } = draggingRef.current;
     set(s => {
-      const insts = s.instances.map(i => {
-        if (i.id !== id) return i;
-        let nx = local.x - off[0];
-        let ny = local.y - off[1];
-        if (s.snap) {
-          nx = Math.round(nx / s.tileW) * s.tileW; // snap to tile size grid for easy tessellation
-          ny = Math.round(ny / s.tileH) * s.tileH;
-        }
-        return { ...i, x: nx, y: ny };
-      });
+      const o = origins[anchorId];
+      let p = [o[0] + local[0] - start[0], o[1] + local[1] - start[1]];
+      // snap the grabbed tile onto a cell of its base tiling, turned cells included, for easy tessellation
+      if (s.snap) {
+        const anchor = s.instances.find(i => i.id === anchorId);
+        const proto = prototypeOf(syncPrototypes(s), anchor);
+        p = snapToPlacement(p, baseOf(proto), anchor.rot, anchor.flip, mpCentroid(proto.tileMP));
+      }
+      const dx = p[0] - o[0], dy = p[1] - o[1];
+      const insts = s.instances.map(i => ids.includes(i.id) ? { ...i, x: origins[i.id][0] + dx, y: origins[i.id][1] + dy } : i);
       return { ...s, instances: insts };
-    });
+    }, 'Move tile', key);
   }, [set]);
 
-  const onAssemblyMouseUp = useCallback(() => { draggingRef.current = null; }, []);
+  const onAssemblyMouseUp = useCallback(() => {
+    draggingRef.current = null;
+    panRef.current = null;
+    const m = marqueeRef.current;
+    marqueeRef.current = null;
+    if (!m || !m.rect) return;
+    setMarquee(null);
+    const hits = instances.filter(i => boundsNear(mpBounds(instanceMP(i, shapeOf(i).mp, shapeOf(i).center)), m.rect, 0)).map(i => i.id);
+    setSelectedIds(prev => m.additive ? [...new Set([...prev, ...hits])] : hits);
+  }, [instances, shapeOf]);
   useEffect(() => {
     window.addEventListener('mouseup', onAssemblyMouseUp);
     return () => window.removeEventListener('mouseup', onAssemblyMouseUp);
   }, [onAssemblyMouseUp]);
 
+  // Keyboard: arrows nudge (Shift = one grid step), [ ] rotate by the lattice angle (Shift = 1°),
+  // Ctrl/Cmd+D duplicates, Delete removes, F flips
+  useEffect(() => {
+    const onKey = (e) => {
+      if (selectedIds.length === 0 || isTypingTarget(e.target)) return;
+      if (mode === 'select' && selectedVertex) return; // vertex editing owns the keys
+      const step = e.shiftKey ? gridSize : 1;
+      const arrows = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+      if (arrows[e.key]) { e.preventDefault(); nudgeSelected(arrows[e.key][0], arrows[e.key][1]); }
+      else if (e.key === '[' || e.key === '{') { e.preventDefault(); rotateSelected(e.shiftKey ? -1 : -base.rotStep); }
+      else if (e.key === ']' || e.key === '}') { e.preventDefault(); rotateSelected(e.shiftKey ? 1 : base.rotStep); }
+      else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') { e.preventDefault(); duplicateSelected(); }
+      else if (e.key === 'Delete' || e.key === 'Backspace') { e.preventDefault(); deleteSelected(); }
+      else if (e.key.toLowerCase() === 'f' && !e.ctrlKey && !e.metaKey) { e.preventDefault(); flipSelected(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [selectedIds, mode, selectedVertex, gridSize, base, nudgeSelected, rotateSelected, duplicateSelected, deleteSelected, flipSelected]);
+
+  const selectedRotation = useMemo(() => {
+    const sel = instances.filter(i => selectedIds.includes(i.id));
+    return sel.length > 0 && sel.every(i => i.rot === sel[0].rot) ? sel[0].rot : '';
+  }, [instances, selectedIds]);
+  // Color shown in the picker: that of the first selected tile (color inputs need a #rrggbb value)
+  const selectedColor = useMemo(() => {
+    const first = instances.find(i => selectedIds.includes(i.id));
+    return first ? first.color || shapeOf(first).proto.tileFill : '#000000';
+  }, [instances, selectedIds, shapeOf]);
+
   /******** Export Helpers ********/
   const download = (blob, filename) => {
     const url = URL.createObjectURL(blob);
@@ -321,86 +1489,432 @@ export default function EscherLab() {
     URL.revokeObjectURL(url);
   };
 
+  /******** Project Save / Open / Autosave ********/
+  const fileInputRef = useRef(null);
+  // Autosave found on load, waiting for the user to restore or discard it; autosave is paused meanwhile
+  const [recovery, setRecovery] = useState(null);
+  const [recoveryChecked, setRecoveryChecked] = useState(false);
+
+  const saveProject = useCallback(() => {
+    const json = serializeProject(present, getHistory(MAX_SAVED_HISTORY));
+    download(new Blob([json], { type: 'application/json' }), 'tile-project.json');
+  }, [present, getHistory]);
+
+  const onOpenFile = useCallback((e) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const { state, history } = parseProject(text, initial);
+      reset(state, history);
+    }).catch(err => {
+      window.alert(`Could not open project: ${err.message}`);
+    });
+  }, [initial, reset]);
+
+  useEffect(() => {
+    try {
+      const text = localStorage.getItem(AUTOSAVE_KEY);
+      if (text) {
+        const found = parseProject(text, initial);
+        // Only prompt when the autosave holds more than a blank project
+        const blank = JSON.stringify(pickProjectFields(initial));
+        if (JSON.stringify(pickProjectFields(found.state)) !== blank || (found.history)) setRecovery(found);
+      }
+    } catch (e) {
+      console.warn("Autosave could not be read", e);
+    }
+    setRecoveryChecked(true);
+  }, [initial]);
+
+  useEffect(() => {
+    if (!recoveryChecked || recovery) return;
+    const timer = setTimeout(() => {
+      try {
+        localStorage.setItem(AUTOSAVE_KEY, serializeProject(present, getHistory(MAX_SAVED_HISTORY)));
+      } catch (e) {
+        console.warn("Autosave failed", e);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [present, recovery, recoveryChecked, getHistory]);
+
+  const restoreRecovery = () => {
+    reset(recovery.state, recovery.history);
+    setRecovery(null);
+  };
+  const discardRecovery = () => {
+    localStorage.removeItem(AUTOSAVE_KEY);
+    setRecovery(null);
+  };
+
+  /******** SVG Import ********/
+  const svgInputRef = useRef(null);
+  // Parsed file waiting for the user to pick a target and scaling: { name, drafts, target, scale, error }
+  const [svgImport, setSvgImport] = useState(null);
+
+  const onOpenSVG = useCallback((e) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const drafts = svgToDrafts(text);
+      if (drafts.length === 0) throw new Error('No path, polygon or rect elements found');
+      setSvgImport({ name: file.name, drafts, target: 'draft', scale: 'keep', error: null });
+    }).catch(err => {
+      window.alert(`Could not import SVG: ${err.message}`);
+    });
+  }, []);
+
+  // Subpaths combine even-odd, so nested ones become holes as in the exported tile
+  const draftsToMP = (drafts) => {
+    const flat = drafts.map(d => flattenDraft(d, curveTol));
+    const mp = flat.slice(1).reduce((acc, f) => pc.xor(acc, simplePolygonToMP(f.points)), simplePolygonToMP(flat[0].points));
+    return { mp, curves: flat.flatMap(f => f.curves) };
+  };
+
+  const applySvgImport = () => {
+    const { drafts, target, scale } = svgImport;
+    try {
+      let placed = drafts;
+      if (scale === 'fit' && target === 'draft') {
+        // uniform scale and centre into the base tile's bounding box
+        const [bx0, by0, bx1, by1] = mpBounds(baseRegion(base));
+        const [x0, y0, x1, y1] = mpBounds([drafts.map(d => flattenDraft(d, curveTol).points)]);
+        const k = Math.min((bx1 - bx0) / Math.max(x1 - x0, 1e-9), (by1 - by0) / Math.max(y1 - y0, 1e-9));
+        const t = [(bx0 + bx1) / 2 - k * (x0 + x1) / 2, (by0 + by1) / 2 - k * (y0 + y1) / 2];
+        placed = drafts.map(d => scaleDraft(d, k, t));
+      } else if (scale === 'fit') {
+        // a tile must keep the base's area, so scale by area and put the centroids together; a bounding box
+        // fit would shrink any tile that sticks out of the base box
+        const { mp } = draftsToMP(drafts);
+        const k = Math.sqrt(ringArea(base.outline) / Math.max(mpArea(mp), 1e-9));
+        const [cx, cy] = mpCentroid(mp), [bx, by] = mpCentroid(baseRegion(base));
+        placed = drafts.map(d => scaleDraft(d, k, [bx - k * cx, by - k * cy]));
+      }
+      if (target === 'draft') {
+        // the draft holds one outline, so take the subpath enclosing the most area
+        const area = (d) => Math.abs(ringArea(flattenDraft(d, curveTol).points));
+        const largest = placed.reduce((a, b) => area(b) > area(a) ? b : a);
+        set(s => ({ ...s, draftShape: largest, mode: 'draw' }), 'Import SVG draft');
+        setSvgImport(null);
+        return;
+      }
+      const { mp, curves: importedCurves } = draftsToMP(placed);
+      const result = checkTessellation(mp, base);
+      if (!result.ok) {
+        setSvgImport({ ...svgImport, error: `Not a valid tile for this base: ${result.issues.join('; ')}` });
+        return;
+      }
+      set(s => ({ ...s, tileMP: mp, curves: pruneCurves(importedCurves, mp), draftShape: [] }), 'Import SVG tile');
+      setSvgImport(null);
+    } catch (e) {
+      setSvgImport({ ...svgImport, error: `Could not import: ${e.message}` });
+    }
+  };
+
   const exportTileSVG = useCallback(() => {
-    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${tileW}" height="${tileH}" viewBox="0 0 ${tileW} ${tileH}">\n` +
-      `<path d="${mpToPath(tileMP)}" fill="none" stroke="black" stroke-width="2"/>\n</svg>`;
+    // The sculpted tile may protrude beyond the base box, so export its own bounds
+    const [x0, y0, x1, y1] = mpBounds(tileMP);
+    const w = x1 - x0, h = y1 - y0;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="${x0} ${y0} ${w} ${h}">\n` +
+      `<defs>${tileClipSVG('tile-clip', tileMP, curves)}</defs>\n${layersToSVG(layers, 'tile-clip')}\n` +
+      `<path d="${mpToCurvePath(tileMP, curves)}" fill="none" stroke="black" stroke-width="2"/>\n</svg>`;
     download(new Blob([svg], { type: 'image/svg+xml' }), 'tile.svg');
-  }, [tileMP, tileW, tileH]);
+  }, [tileMP, curves, layers]);
+
+  // Fabrication files for the tile being designed; the settings are saved with the project
+  const [showFab, setShowFab] = useState(false);
+  const [fabError, setFabError] = useState(null);
+  const setFab = (patch) => set(s => ({ ...s, fab: { ...s.fab, ...patch } }));
+  const tileSizeMM = useMemo(() => {
+    const [x0, y0, x1, y1] = mpBounds(tileMP);
+    return [(x1 - x0) * fab.mmPerUnit, (y1 - y0) * fab.mmPerUnit];
+  }, [tileMP, fab.mmPerUnit]);
+  const exportFab = (write, type, filename) => {
+    try {
+      download(new Blob([write(tileMP, fab)], { type }), filename);
+      setFabError(null);
+    } catch (e) {
+      setFabError(`Export failed: ${e.message}`);
+    }
+  };
+
+  // Print sheets of the tile being designed at fab.mmPerUnit (options are UI only)
+  const [printOpts, setPrintOpts] = useState(null); // PRINT_DEFAULTS-shaped while the print bar is open
+  const [printError, setPrintError] = useState(null);
+  const exportPrintPDF = () => {
+    const proto = allPrototypes.find(p => p.id === activePrototype);
+    const pieces = instances.map(i => ({ mp: instanceMP(i, shapeOf(i).mp, shapeOf(i).center), fill: i.color || shapeOf(i).proto.tileFill }));
+    try {
+      const pdf = writeTileSheetPDF({ name: proto.name, mp: tileMP, fill: tileFill, layers }, pieces, fab.mmPerUnit, printOpts);
+      download(new Blob([pdf], { type: 'application/pdf' }), 'tiles.pdf');
+      setPrintError(null);
+    } catch (e) {
+      setPrintError(e.message);
+    }
+  };
+
+  // Assembly exports cover the placed tiles plus `exportMargin` world units; PNGs are rendered at
+  // `pngScale` pixels per unit (2× and up for high-DPI screens and print)
+  const [exportMargin, setExportMargin] = useState(20);
+  const [pngScale, setPngScale] = useState(2);
+
+  // Standalone SVG of the assembly, with width/height at `scale` pixels per world unit
+  const assemblySVG = useCallback((scale) => {
+    const [bx0, by0, bx1, by1] = contentBounds() || (([x, y, w, h]) => [x, y, x + w, y + h])(viewBoxOf(view));
+    const x0 = bx0 - exportMargin, y0 = by0 - exportMargin;
+    const w = bx1 - bx0 + 2*exportMargin, h = by1 - by0 + 2*exportMargin;
+    // Outline and decoration markup once per prototype, reused by its instances
+    const used = allPrototypes.filter(p => instances.some(i => prototypeOf(allPrototypes, i).id === p.id));
+    const markup = Object.fromEntries(used.map(p => {
+      const path = mpToCurvePath(p.tileMP, p.curves);
+      return [p.id, { path, overlay: layersToSVG(p.layers, `tile-clip-${p.id}`) + `<path d="${path}" fill="none" stroke="black" stroke-width="2"/>` }];
+    }));
+    const clips = used.map(p => tileClipSVG(`tile-clip-${p.id}`, p.tileMP, p.curves)).join('');
+    const items = instances.map(i => {
+      const proto = prototypeOf(allPrototypes, i), m = markup[proto.id];
+      return `<g transform="${instanceTransform(i, shapeOf(i).center)}">` +
+        `<path d="${m.path}" fill="${i.color || proto.tileFill}" stroke="none"/>` + m.overlay + `</g>`;
+    }).join('\n');
+    const grid = renderGridSVG(x0, y0, w, h, gridSize, '#eee');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w * scale}" height="${h * scale}" viewBox="${x0} ${y0} ${w} ${h}">\n` +
+      `<defs>${clips}</defs>\n${grid}\n${items}\n</svg>`;
+    return { svg, width: Math.round(w * scale), height: Math.round(h * scale) };
+  }, [contentBounds, view, exportMargin, instances, allPrototypes, shapeOf, gridSize]);
 
   const exportAssemblySVG = useCallback(() => {
-    const padding = 40;
-    const w = 1200, h = 800;
-    const path = mpToPath(tileMP);
-    const items = instances.map(i => `<g transform="translate(${i.x + padding}, ${i.y + padding}) rotate(${i.rot})">` +
-      `<path d="${path}" fill="none" stroke="black" stroke-width="2"/>` + `</g>`).join('\n');
-    const grid = renderGridSVG(w, h, gridSize, '#eee');
-    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">\n${grid}\n${items}\n</svg>`;
-    download(new Blob([svg], { type: 'image/svg+xml' }), 'assembly.svg');
-  }, [instances, tileMP, gridSize]);
+    download(new Blob([assemblySVG(1).svg], { type: 'image/svg+xml' }), 'assembly.svg');
+  }, [assemblySVG]);
 
   const exportAssemblyPNG = useCallback(() => {
-    // Rasterize the current assembly SVG to a PNG
-    const w = 1200, h = 800;
-    const svgEl = assemblySvgRef.current; if (!svgEl) return;
-    const ser = new XMLSerializer();
-    const raw = ser.serializeToString(svgEl);
-    const svgBlob = new Blob([raw], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
-
+    // Rasterize the export SVG, drawn at its full pixel size so curves stay sharp
+    const { svg, width, height } = assemblySVG(pngScale);
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
     const img = new Image();
     img.onload = () => {
       const canvas = document.createElement('canvas');
-      canvas.width = w; canvas.height = h;
+      canvas.width = width; canvas.height = height;
       const ctx = canvas.getContext('2d');
       ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0,0,w,h);
-      ctx.drawImage(img, 0, 0);
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
       canvas.toBlob((blob) => {
         if (blob) download(blob, 'assembly.png');
+        else window.alert('The PNG is too large for this browser; lower the scale.');
         URL.revokeObjectURL(url);
       });
     };
     img.src = url;
+  }, [assemblySVG, pngScale]);
+
+  /******** Circle Limit Mode (hyperbolic) ********/
+  const [space, setSpace] = useState('plane'); // 'plane' | 'disk': which designer and assembly are shown (UI only)
+  const hyperTile = useMemo(() => hyperBase(hyper.p, hyper.q), [hyper.p, hyper.q]);
+  const hyperPlacements = useMemo(() => hyperTiling(hyperTile, HYPER_GUIDE_TILES), [hyperTile]);
+  const hyperGuidePath = useMemo(() => hyperPlacements.map(m => hyperMPPath([[hyperTile.outline]], m)).join(' '), [hyperTile, hyperPlacements]);
+  const [hyperMode, setHyperMode] = useState('draw'); // 'draw' | 'union' | 'subtract' | 'slide' | 'turn'
+  const [hyperSlide, setHyperSlide] = useState('e0');
+  const [hyperPivot, setHyperPivot] = useState('c0');
+  const [hyperTurnDir, setHyperTurnDir] = useState(1); // corners turn either way, edge midpoints by 180°
+  const [diskSelected, setDiskSelected] = useState(null); // id of the selected disk instance (UI only)
+  const diskEditorRef = useRef(null);
+  const diskAssemblyRef = useRef(null);
+  const diskDragRef = useRef(null); // {id, start, m, key} while dragging a disk instance
+  useEffect(() => setOpError(null), [hyperDraft, hyperMode, space]);
+
+  // The two spaces keep their own selections; the hidden one must not react to keys
+  const switchSpace = (next) => {
+    setSpace(next);
+    setSelectedIds([]);
+    setSelectedVertex(null);
+    setDiskSelected(null);
+  };
+
+  // What Apply does in the current disk mode, checked as the draft is drawn
+  const hyperOp = useMemo(() => {
+    if (hyperMode === 'slide') return { type: 'slide' as const, slide: hyperSlide, draft: hyperDraft };
+    if (hyperMode === 'turn') {
+      const pivot = hyperTile.pivots.find(pv => pv.id === hyperPivot) || hyperTile.pivots[0];
+      return { type: 'turn' as const, pivot: pivot.id, angle: pivot.angles[hyperTurnDir < 0 && pivot.angles.length > 1 ? 1 : 0], draft: hyperDraft };
+    }
+    return { type: hyperMode === 'subtract' ? 'subtract' as const : 'union' as const, draft: hyperDraft };
+  }, [hyperMode, hyperSlide, hyperPivot, hyperTurnDir, hyperTile, hyperDraft]);
+  const hyperIssues = useMemo(() => hyperDraft.length < 3 ? [] : checkHyperOp(hyper, hyperOp), [hyper, hyperOp, hyperDraft.length]);
+  const hyperRepairable = hyperIssues.some(i => i.code === 'duplicate' || i.code === 'collinear');
+
+  const applyHyperMode = () => {
+    if (hyperMode === 'draw') return;
+    const slide = hyperTile.slides.find(sl => sl.id === hyperSlide);
+    const label = hyperOp.type === 'union' ? 'Add shape' : hyperOp.type === 'subtract' ? 'Subtract shape'
+      : hyperOp.type === 'slide' ? `Cut ${slide ? slide.label : hyperSlide}` : `Turn ${+Math.abs(hyperOp.angle).toFixed(1)}°`;
+    tryOp(() => set(s => ({ ...s, hyper: applyHyperOp(s.hyper, { ...hyperOp, draft: s.hyperDraft }), hyperDraft: [] }), label));
+  };
+  const clearHyperDraft = () => set(s => ({ ...s, hyperDraft: [] }), 'Clear draft');
+  const repairHyperDraft = () => set(s => ({ ...s, hyperDraft: repairDraft(s.hyperDraft) }), 'Repair draft');
+  const resetHyperTile = () => set(s => ({ ...s, hyper: { ...s.hyper, tileMP: [[hyperBase(s.hyper.p, s.hyper.q).outline]] }, hyperDraft: [] }), 'Reset tile');
+
+  // A new {p,q} starts a fresh tile; placed copies keep their maps. Typing merges into one history entry.
+  const setHyperBase = (p, q) => {
+    setHyperSlide('e0');
+    setHyperPivot('c0');
+    tryOp(() => set(s => ({ ...s, hyper: { ...initialHyperState(p, q, s.hyper.tileFill), instances: s.hyper.instances }, hyperDraft: [] }), 'Change {p,q}', 'hyperBase'));
+  };
+
+  // Mouse event -> unit disk point in one of the disk views
+  const diskPoint = (svg, e) => {
+    if (!svg) return null;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX; pt.y = e.clientY;
+    const local = pt.matrixTransform(svg.getScreenCTM().inverse());
+    return [local.x / HYPER_R, local.y / HYPER_R];
+  };
+
+  // Draft points are stored in Klein coordinates; with Snap on they catch the corners and edges of the base
+  const onDiskEditorMouseDown = (e) => {
+    const z = diskPoint(diskEditorRef.current, e);
+    if (!z || Math.hypot(z[0], z[1]) > DISK_EDGE) return;
+    let k = diskToKlein(z);
+    if (snap) {
+      const corner = hyperTile.outline.find(c => distance(c, k) < HYPER_SNAP);
+      const onEdge = nearestOnMP([[hyperTile.outline]], k);
+      k = corner || (onEdge && distance(onEdge, k) < HYPER_SNAP ? onEdge : k);
+    }
+    set(s => ({ ...s, hyperDraft: [...s.hyperDraft, k] }), 'Add draft point');
+  };
+
+  // Disk assembly: copies are Möbius maps of the tile
+  const addDiskInstance = () => {
+    const id = newId();
+    set(s => ({ ...s, hyper: { ...s.hyper, instances: [...s.hyper.instances, { id, m: MOBIUS_IDENTITY }] } }), 'Add tile');
+    setDiskSelected(id);
+  };
+  const clearDiskInstances = () => { set(s => ({ ...s, hyper: { ...s.hyper, instances: [] } }), 'Clear assembly'); setDiskSelected(null); };
+  const updateDiskSelected = (fn, label, key = null) => {
+    if (!diskSelected) return;
+    set(s => ({ ...s, hyper: { ...s.hyper, instances: s.hyper.instances.map(i => i.id === diskSelected ? { ...i, ...fn(i) } : i) } }), label, key && `${key}:${diskSelected}`);
+  };
+  // Turns about the copy's own centre, so it stays on its placement
+  const rotateDiskSelected = (deg) => updateDiskSelected(i => ({ m: composeMobius(i.m, diskRotation(deg)) }), 'Rotate tile');
+  const colorDiskSelected = (color) => updateDiskSelected(() => ({ color }), 'Color tile', 'color');
+  // Copies land on a neighbouring placement: across the first slide pair, or the half-turn about edge 1
+  const duplicateDiskSelected = () => {
+    const inst = hyper.instances.find(i => i.id === diskSelected);
+    if (!inst) return;
+    const id = newId();
+    const step = hyperTile.slides.length > 0 ? hyperTile.slides[0].m : hyperPlacements[1];
+    set(s => ({ ...s, hyper: { ...s.hyper, instances: [...s.hyper.instances, { ...inst, id, m: composeMobius(inst.m, step) }] } }), 'Duplicate tile');
+    setDiskSelected(id);
+  };
+  const deleteDiskSelected = () => {
+    if (!diskSelected) return;
+    set(s => ({ ...s, hyper: { ...s.hyper, instances: s.hyper.instances.filter(i => i.id !== diskSelected) } }), 'Delete tile');
+    setDiskSelected(null);
+  };
+  const diskSelectedColor = (hyper.instances.find(i => i.id === diskSelected) || {}).color || hyper.tileFill;
+
+  const onDiskMouseDown = (e) => {
+    const z = diskPoint(diskAssemblyRef.current, e);
+    if (!z) return;
+    const inst = hitDiskInstance(hyper.instances, hyper.tileMP, z);
+    setDiskSelected(inst ? inst.id : null);
+    if (inst) diskDragRef.current = { id: inst.id, start: z, m: inst.m, key: nextGestureKey() };
+  };
+  // A drag applies the isometry taking the grab point to the pointer, so copies shrink toward the rim;
+  // with Snap on they settle on the nearest placement of the {p,q} tiling
+  const onDiskMouseMove = (e) => {
+    const drag = diskDragRef.current;
+    if (!drag) return;
+    const z = diskPoint(diskAssemblyRef.current, e);
+    if (!z) return;
+    const r = Math.hypot(z[0], z[1]);
+    const to = r > DISK_EDGE ? [z[0] * DISK_EDGE / r, z[1] * DISK_EDGE / r] : z;
+    let m = composeMobius(diskTranslation(to), composeMobius(diskTranslation([-drag.start[0], -drag.start[1]]), drag.m));
+    if (snap) m = snapToTiling(m, hyperPlacements, hyperTile.rotStep, HYPER_SNAP_DIST);
+    set(s => ({ ...s, hyper: { ...s.hyper, instances: s.hyper.instances.map(i => i.id === drag.id ? { ...i, m } : i) } }), 'Move tile', drag.key);
+  };
+  useEffect(() => {
+    const onUp = () => { diskDragRef.current = null; };
+    window.addEventListener('mouseup', onUp);
+    return () => window.removeEventListener('mouseup', onUp);
   }, []);
 
+  // Keyboard: [ ] rotate by the {p,q} rotation, Ctrl/Cmd+D duplicates, Delete removes
+  useEffect(() => {
+    const onKey = (e) => {
+      if (space !== 'disk' || !diskSelected || isTypingTarget(e.target)) return;
+      if (e.key === '[' || e.key === '{') { e.preventDefault(); rotateDiskSelected(-hyperTile.rotStep); }
+      else if (e.key === ']' || e.key === '}') { e.preventDefault(); rotateDiskSelected(hyperTile.rotStep); }
+      else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') { e.preventDefault(); duplicateDiskSelected(); }
+      else if (e.key === 'Delete' || e.key === 'Backspace') { e.preventDefault(); deleteDiskSelected(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [space, diskSelected, hyper, hyperTile, hyperPlacements, set]);
+
+  const exportDiskSVG = () => download(new Blob([diskSVG(hyper, hyper.instances)], { type: 'image/svg+xml' }), 'circle-limit.svg');
+  const exportHyperTileSVG = () => download(new Blob([diskSVG(hyper, [{ m: MOBIUS_IDENTITY }])], { type: 'image/svg+xml' }), 'tile.svg');
+
   /******** UI Helpers ********/
-  const changeMode = (m) => set(s => ({ ...s, mode: m }));
+  const changeMode = (m) => { setSelectedVertex(null); set(s => ({ ...s, mode: m })); };
   const toggleSnap = () => set(s => ({ ...s, snap: !s.snap }));
+  const setTurnPivot = (id) => set(s => ({ ...s, ...validTurn(baseOf(s), id, s.turnAngle) }));
+  const setTurnAngle = (deg) => set(s => ({ ...s, turnAngle: deg }));
+  const setGlideDir = (d) => set(s => ({ ...s, glideDir: d }));
+
+  const setTileSize = (w, h) => tryOp(() => set(s => {
+    const [nw, nh] = normalizeTileSize(s.baseKind, w, h, s.baseAngle);
+    const next = { ...s, tileW: nw, tileH: nh };
+    return { ...next, ...validTurn(baseOf(next), s.turnPivot, s.turnAngle), tileMP: intersectWithBounds(s.tileMP, baseWorkRegion(baseOf(next))) };
+  }, 'Resize base', 'tileSize'));
 
-  const setTileSize = (w, h) => set(s => ({ ...s, tileW: w, tileH: h, tileMP: intersectWithBounds(s.tileMP, w, h) }));
+  // Switching the base shape (or the parallelogram angle) starts a fresh tile of that shape
+  const setBase = (kind, angle) => set(s => {
+    const [nw, nh] = normalizeTileSize(kind, s.tileW, s.tileH, angle);
+    const next = { ...s, baseKind: kind, baseAngle: angle, tileW: nw, tileH: nh, draftShape: [], curves: [] };
+    const b = baseOf(next);
+    const slideModeValid = !s.mode.startsWith('cutSlide') || b.slides.some(sl => `cutSlide${sl.id}` === s.mode);
+    return {
+      ...next,
+      ...validTurn(b, s.turnPivot, s.turnAngle),
+      tileMP: baseRegion(b),
+      mode: slideModeValid ? s.mode : 'draw',
+      glideDir: (b.slides.find(sl => sl.glide) || { id: s.glideDir }).id,
+    };
+  }, 'Change base', `base:${kind}`); // typing a parallelogram angle merges into one entry
 
   const applyModeAction = () => {
+    if (mode === 'paint') return fillDraft();
     if (mode === 'booleanAdd') return applyBoolean('add');
     if (mode === 'booleanSub') return applyBoolean('sub');
-    if (mode === 'cutSlideLR') return applyCutSlide('LR');
-    if (mode === 'cutSlideRL') return applyCutSlide('RL');
-    if (mode === 'cutSlideTB') return applyCutSlide('TB');
-    if (mode === 'cutSlideBT') return applyCutSlide('BT');
+    if (mode.startsWith('cutSlide')) return applyCutSlide(mode.slice('cutSlide'.length));
+    if (mode === 'cutTurn') return applyCutTurn();
+    if (mode === 'cutGlide') return applyCutGlide(glideDir);
   };
 
-  const resetTile = () => set(s => ({ ...s, tileMP: rectMultiPolygon(s.tileW, s.tileH), draftShape: [] }));
+  const resetTile = () => set(s => ({ ...s, tileMP: baseRegion(baseOf(s)), curves: [], draftShape: [] }), 'Reset tile');
 
-  // Grid rendering for SVG
-  function renderGridSVG(w, h, step, color) {
+  // Grid rendering for SVG; lines sit on multiples of `step` like the on-screen grid
+  function renderGridSVG(x, y, w, h, step, color) {
     const lines = [];
-    for (let x = 0; x <= w; x += step) lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${h}" stroke="${color}" stroke-width="1"/>`);
-    for (let y = 0; y <= h; y += step) lines.push(`<line x1="0" y1="${y}" x2="${w}" y2="${y}" stroke="${color}" stroke-width="1"/>`);
+    for (let gx = Math.ceil(x / step) * step; gx <= x + w; gx += step) lines.push(`<line x1="${gx}" y1="${y}" x2="${gx}" y2="${y + h}" stroke="${color}" stroke-width="1"/>`);
+    for (let gy = Math.ceil(y / step) * step; gy <= y + h; gy += step) lines.push(`<line x1="${x}" y1="${gy}" x2="${x + w}" y2="${gy}" stroke="${color}" stroke-width="1"/>`);
     return lines.join('\n');
   }
 
   // JSX Grid as elements
-  const Grid = ({ w, h, step, color }) => {
+  const Grid = ({ x = 0, y = 0, w, h, step, color }) => {
     const lines = [];
-    for (let x = 0; x <= w; x += step) lines.push(<line key={`vx${x}`} x1={x} y1={0} x2={x} y2={h} stroke={color} strokeWidth={1} />);
-    for (let y = 0; y <= h; y += step) lines.push(<line key={`hz${y}`} x1={0} y1={y} x2={w} y2={y} stroke={color} strokeWidth={1} />);
+    const gx0 = Math.ceil(x / step) * step, gy0 = Math.ceil(y / step) * step;
+    for (let gx = gx0; gx <= x + w; gx += step) lines.push(<line key={`vx${gx}`} x1={gx} y1={y} x2={gx} y2={y + h} stroke={color} strokeWidth={1} />);
+    for (let gy = gy0; gy <= y + h; gy += step) lines.push(<line key={`hz${gy}`} x1={x} y1={gy} x2={x + w} y2={gy} stroke={color} strokeWidth={1} />);
     return <g>{lines}</g>;
   };
 
   // Draft shape path for display
   const draftPath = useMemo(() => {
     if (draftShape.length < 2) return '';
-    const pts = draftShape.map((p,i) => `${i===0?"M":"L"}${p[0]} ${p[1]}`).join(' ');
-    return pts;
+    return draftToPath(draftShape);
   }, [draftShape]);
 
   const toolbarButton = (label, active, onClick, title) => (
@@ -413,54 +1927,413 @@ export default function EscherLab() {
       <header className="sticky top-0 z-10 bg-white border-b">
         <div className="max-w-7xl mx-auto p-3 flex flex-wrap items-center gap-2">
           <h1 className="text-xl font-semibold mr-4">Escher Tessellation Lab_ dan</h1>
-          {toolbarButton('Draw', mode==='draw', () => changeMode('draw'), 'Click to place polygon points; Enter closes it')}
-          {toolbarButton('Union', mode==='booleanAdd', () => changeMode('booleanAdd'), 'Add polygon to tile')}
-          {toolbarButton('Subtract', mode==='booleanSub', () => changeMode('booleanSub'), 'Subtract polygon from tile')}
-          <div className="h-6 w-px bg-gray-300 mx-1"/>
-          {toolbarButton('Cut → (L→R)', mode==='cutSlideLR', () => changeMode('cutSlideLR'), 'Cut from left, slide to right')}
-          {toolbarButton('Cut ← (R→L)', mode==='cutSlideRL', () => changeMode('cutSlideRL'), 'Cut from right, slide to left')}
-          {toolbarButton('Cut ↓ (T→B)', mode==='cutSlideTB', () => changeMode('cutSlideTB'), 'Cut from top, slide to bottom')}
-          {toolbarButton('Cut ↑ (B→T)', mode==='cutSlideBT', () => changeMode('cutSlideBT'), 'Cut from bottom, slide to top')}
+          <select value={space} onChange={(e)=> switchSpace(e.target.value)} className="border rounded px-2 py-1 text-sm"
+            title="The Euclidean plane, or the hyperbolic Poincaré disk of Escher's Circle Limit prints">
+            <option value="plane">Plane</option>
+            <option value="disk">Circle Limit</option>
+          </select>
+          {space === 'plane' ? (
+            <>
+              <span title={validity.ok ? 'The tile covers the plane without gaps or overlaps' : [...validity.issues, 'Checked against translated, half-turned, glide-reflected and corner-turned neighbours'].join('\n')}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${validity.ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                {validity.ok ? '✓ Tiles the plane' : `⚠ ${validity.issues.length} issue${validity.issues.length > 1 ? 's' : ''}`}
+              </span>
+              {toolbarButton('Draw', mode==='draw', () => changeMode('draw'), 'Click to place polygon points; Enter closes it')}
+              {mode==='draw' && (
+                <>
+                  <select value={drawSeg} onChange={(e)=> set(s => ({ ...s, drawSeg: e.target.value }))} className="border rounded px-2 py-1 text-sm"
+                    title="Segment type: Bézier = click-drag a handle, Arc = click-drag the bulge">
+                    <option value="L">Line</option>
+                    <option value="C">Bézier</option>
+                    <option value="A">Arc</option>
+                  </select>
+                  {drawSeg !== 'L' && (
+                    <label className="text-sm flex items-center gap-1" title="Max deviation when curves are flattened for the boolean ops">Tol
+                      <input type="number" min={0.05} max={10} step={0.05} value={curveTol}
+                        onChange={(e)=> set(s => ({ ...s, curveTol: Math.max(0.05, parseFloat(e.target.value || '0.5')) }))}
+                        className="w-16 border rounded px-2 py-1"/>
+                    </label>
+                  )}
+                </>
+              )}
+              {toolbarButton('Paint', mode==='paint', () => changeMode('paint'), 'Draw interior details into the active decoration layer')}
+              {mode==='paint' && (
+                <>
+                  <select value={paintTool} onChange={(e)=> set(s => ({ ...s, paintTool: e.target.value }))} className="border rounded px-2 py-1 text-sm"
+                    title="Brush = drag freehand strokes, Shape = draw a draft and Apply to fill it">
+                    <option value="brush">Brush</option>
+                    <option value="shape">Shape</option>
+                  </select>
+                  <input type="color" value={paintColor} onChange={(e)=> set(s => ({ ...s, paintColor: e.target.value }))} className="h-8 w-10 border rounded" title="Paint color"/>
+                  {paintTool === 'brush' && (
+                    <label className="text-sm flex items-center gap-1">Width
+                      <input type="number" min={0.5} max={40} step={0.5} value={paintWidth}
+                        onChange={(e)=> set(s => ({ ...s, paintWidth: Math.max(0.5, parseFloat(e.target.value || '3')) }))}
+                        className="w-16 border rounded px-2 py-1"/>
+                    </label>
+                  )}
+                </>
+              )}
+              {toolbarButton('Edit Points', mode==='select', () => changeMode('select'), 'Drag tile vertices (twins on the partner edge follow); double-click an edge to insert, Delete removes')}
+              {toolbarButton('Union', mode==='booleanAdd', () => changeMode('booleanAdd'), 'Add polygon to tile')}
+              {toolbarButton('Subtract', mode==='booleanSub', () => changeMode('booleanSub'), 'Subtract polygon from tile')}
+              <div className="h-6 w-px bg-gray-300 mx-1"/>
+              {base.slides.map(sl => (
+                <React.Fragment key={sl.id}>{toolbarButton(sl.label, mode===`cutSlide${sl.id}`, () => changeMode(`cutSlide${sl.id}`), sl.title)}</React.Fragment>
+              ))}
+              {toolbarButton('Cut ⟳ Turn', mode==='cutTurn', () => changeMode('cutTurn'), 'Cut along an edge and rotate about a pivot onto the adjacent edge')}
+              {mode==='cutTurn' && (
+                <>
+                  <select value={turn.turnPivot} onChange={(e)=> setTurnPivot(e.target.value)} className="border rounded px-2 py-1 text-sm" title="Pivot (also clickable in the editor)">
+                    {turnPivots(base).map(pv => <option key={pv.id} value={pv.id}>{pv.label}</option>)}
+                  </select>
+                  <select value={turn.turnAngle} onChange={(e)=> setTurnAngle(parseInt(e.target.value,10))} className="border rounded px-2 py-1 text-sm" title="Rotation angles this pivot allows">
+                    {turnPivots(base).find(pv => pv.id === turn.turnPivot).angles.map(a => <option key={a} value={a}>{Math.abs(a)}° {a>0?'↻':'↺'}</option>)}
+                  </select>
+                </>
+              )}
+              {base.slides.some(sl => sl.glide) && toolbarButton('Cut ⇋ Glide', mode==='cutGlide', () => changeMode('cutGlide'), 'Cut from an edge, mirror across the tile axis and slide to the opposite edge')}
+              {mode==='cutGlide' && (
+                <select value={glideDir} onChange={(e)=> setGlideDir(e.target.value)} className="border rounded px-2 py-1 text-sm" title="Glide direction">
+                  {base.slides.filter(sl => sl.glide).map(sl => <option key={sl.id} value={sl.id}>{sl.label.replace('Cut ', '')}</option>)}
+                </select>
+              )}
+            </>
+          ) : (
+            <>
+              {toolbarButton('Draw', hyperMode==='draw', () => setHyperMode('draw'), 'Click in the disk to place draft points; edges are geodesics')}
+              {toolbarButton('Union', hyperMode==='union', () => setHyperMode('union'), 'Add the draft to the tile')}
+              {toolbarButton('Subtract', hyperMode==='subtract', () => setHyperMode('subtract'), 'Subtract the draft from the tile')}
+              <div className="h-6 w-px bg-gray-300 mx-1"/>
+              {hyperTile.slides.length > 0 && toolbarButton('Cut & Slide', hyperMode==='slide', () => setHyperMode('slide'), 'Cut from an edge and move the piece to the opposite edge along the hyperbolic translation')}
+              {hyperMode==='slide' && (
+                <select value={hyperSlide} onChange={(e)=> setHyperSlide(e.target.value)} className="border rounded px-2 py-1 text-sm" title="Source edge → target edge (numbered in the editor)">
+                  {hyperTile.slides.map(sl => <option key={sl.id} value={sl.id}>{sl.label}</option>)}
+                </select>
+              )}
+              {toolbarButton('Cut ⟳ Turn', hyperMode==='turn', () => setHyperMode('turn'), 'Cut along an edge and rotate about a corner (by 360°/q) or an edge midpoint (by 180°)')}
+              {hyperMode==='turn' && (
+                <>
+                  <select value={hyperPivot} onChange={(e)=> setHyperPivot(e.target.value)} className="border rounded px-2 py-1 text-sm" title="Pivot (also clickable in the editor)">
+                    {hyperTile.pivots.map(pv => <option key={pv.id} value={pv.id}>{pv.label}</option>)}
+                  </select>
+                  {hyperOp.type === 'turn' && hyperTile.pivots.find(pv => pv.id === hyperOp.pivot).angles.length > 1 && (
+                    <select value={hyperTurnDir} onChange={(e)=> setHyperTurnDir(parseInt(e.target.value, 10))} className="border rounded px-2 py-1 text-sm" title="Rotation direction">
+                      <option value={1}>{+(360 / hyper.q).toFixed(1)}° ↻</option>
+                      <option value={-1}>{+(360 / hyper.q).toFixed(1)}° ↺</option>
+                    </select>
+                  )}
+                </>
+              )}
+            </>
+          )}
           <div className="h-6 w-px bg-gray-300 mx-1"/>
-          <button onClick={applyModeAction} className="px-3 py-1 rounded-xl bg-blue-600 text-white hover:bg-blue-700">Apply</button>
-          <button onClick={clearDraft} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Clear Draft</button>
+          <button onClick={space === 'disk' ? applyHyperMode : applyModeAction} className="px-3 py-1 rounded-xl bg-blue-600 text-white hover:bg-blue-700"
+            title={(space === 'disk' ? hyperIssues : draftIssues).some(i => i.level === 'error') ? 'The draft has errors; see below the editor' : undefined}>Apply</button>
+          <button onClick={space === 'disk' ? clearHyperDraft : clearDraft} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Clear Draft</button>
           <div className="h-6 w-px bg-gray-300 mx-1"/>
           <button disabled={!canUndo} onClick={undo} className={`px-2 py-1 rounded-xl border ${canUndo ? 'hover:bg-gray-100':'opacity-40'}`}>Undo</button>
           <button disabled={!canRedo} onClick={redo} className={`px-2 py-1 rounded-xl border ${canRedo ? 'hover:bg-gray-100':'opacity-40'}`}>Redo</button>
-          <button onClick={() => resetTile()} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Reset Tile</button>
+          <button onClick={() => setShowHistory(v => !v)} className={`px-2 py-1 rounded-xl border ${showHistory ? 'bg-gray-200' : 'hover:bg-gray-100'}`}>History</button>
+          <button onClick={() => space === 'disk' ? resetHyperTile() : resetTile()} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Reset Tile</button>
           <div className="ml-auto flex items-center gap-2">
             <label className="flex items-center gap-1 text-sm"><input type="checkbox" checked={snap} onChange={toggleSnap}/> Snap</label>
-            <label className="text-sm flex items-center gap-1">Grid
-              <input type="number" min={4} max={80} step={1} value={gridSize}
-                onChange={(e)=> set(s => ({...s, gridSize: Math.max(2, parseInt(e.target.value||'16',10))}))}
-                className="w-16 border rounded px-2 py-1"/>
-            </label>
-            <button onClick={exportTileSVG} className="px-3 py-1 rounded-xl border hover:bg-gray-100">Export Tile SVG</button>
+            {space === 'plane' && (
+              <label className="text-sm flex items-center gap-1">Grid
+                <input type="number" min={4} max={80} step={1} value={gridSize}
+                  onChange={(e)=> set(s => ({...s, gridSize: Math.max(2, parseInt(e.target.value||'16',10))}))}
+                  className="w-16 border rounded px-2 py-1"/>
+              </label>
+            )}
+            <button onClick={() => fileInputRef.current && fileInputRef.current.click()} className="px-3 py-1 rounded-xl border hover:bg-gray-100">Open…</button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={onOpenFile}/>
+            <button onClick={saveProject} className="px-3 py-1 rounded-xl border hover:bg-gray-100">Save</button>
+            <input ref={svgInputRef} type="file" accept=".svg,image/svg+xml" className="hidden" onChange={onOpenSVG}/>
+            {space === 'plane' && <button onClick={() => svgInputRef.current && svgInputRef.current.click()} className="px-3 py-1 rounded-xl border hover:bg-gray-100">Import SVG…</button>}
+            <button onClick={space === 'disk' ? exportHyperTileSVG : exportTileSVG} className="px-3 py-1 rounded-xl border hover:bg-gray-100">Export Tile SVG</button>
+            {space === 'plane' && (
+              <>
+                <button onClick={() => setShowFab(v => !v)} className={`px-3 py-1 rounded-xl border ${showFab ? 'bg-gray-200' : 'hover:bg-gray-100'}`} title="DXF, G-code and STL in millimetres">Fabricate…</button>
+                <button onClick={() => setPrintOpts(o => o ? null : PRINT_DEFAULTS)} className={`px-3 py-1 rounded-xl border ${printOpts ? 'bg-gray-200' : 'hover:bg-gray-100'}`} title="PDF sheets of tiles to cut out">Print…</button>
+              </>
+            )}
           </div>
         </div>
+        {recovery && (
+          <div className="bg-amber-50 border-t border-amber-200">
+            <div className="max-w-7xl mx-auto px-3 py-2 flex items-center gap-3 text-sm">
+              <span>Unsaved work{recovery.savedAt ? ` from ${new Date(recovery.savedAt).toLocaleString()}` : ''} was found.</span>
+              <button onClick={restoreRecovery} className="px-2 py-1 rounded-xl bg-amber-500 text-white hover:bg-amber-600">Restore</button>
+              <button onClick={discardRecovery} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Discard</button>
+            </div>
+          </div>
+        )}
+        {svgImport && (
+          <div className="bg-sky-50 border-t border-sky-200">
+            <div className="max-w-7xl mx-auto px-3 py-2 flex flex-wrap items-center gap-3 text-sm">
+              <span>Import {svgImport.name} ({svgImport.drafts.length} outline{svgImport.drafts.length === 1 ? '' : 's'}) as</span>
+              <select value={svgImport.target} onChange={(e)=> setSvgImport({ ...svgImport, target: e.target.value, error: null })} className="border rounded px-2 py-1">
+                <option value="draft">Draft shape</option>
+                <option value="tile">Complete tile</option>
+              </select>
+              <select value={svgImport.scale} onChange={(e)=> setSvgImport({ ...svgImport, scale: e.target.value, error: null })} className="border rounded px-2 py-1" title="Scaling into tile coordinates">
+                <option value="keep">Keep SVG units</option>
+                <option value="fit">{svgImport.target === 'tile' ? 'Fit base tile area' : 'Fit base tile box'}</option>
+              </select>
+              <button onClick={applySvgImport} className="px-2 py-1 rounded-xl bg-sky-600 text-white hover:bg-sky-700">Import</button>
+              <button onClick={() => setSvgImport(null)} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Cancel</button>
+              {svgImport.error && <span className="text-red-600">{svgImport.error}</span>}
+            </div>
+          </div>
+        )}
+        {space === 'plane' && showFab && (
+          <div className="bg-emerald-50 border-t border-emerald-200">
+            <div className="max-w-7xl mx-auto px-3 py-2 flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-1" title="Millimetres per tile unit">mm/unit
+                <input type="number" min={0.01} step={0.05} value={fab.mmPerUnit} onChange={(e)=> setFab({ mmPerUnit: Math.max(0.01, parseFloat(e.target.value || '0.25')) })}
+                  className="w-20 border rounded px-2 py-1"/>
+              </label>
+              <span className="text-gray-600 tabular-nums">{tileSizeMM[0].toFixed(1)} × {tileSizeMM[1].toFixed(1)} mm</span>
+              <label className="flex items-center gap-1" title="Cut width; DXF and G-code outlines are offset outward by half of it">Kerf
+                <input type="number" min={0} step={0.05} value={fab.kerf} onChange={(e)=> setFab({ kerf: Math.max(0, parseFloat(e.target.value || '0')) })}
+                  className="w-16 border rounded px-2 py-1"/>
+              </label>
+              <button onClick={() => exportFab(writeDXF, 'application/dxf', 'tile.dxf')} className="px-2 py-1 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700">DXF</button>
+              <div className="h-6 w-px bg-emerald-200"/>
+              <label className="flex items-center gap-1" title="Drawing feed rate (mm/min)">Feed
+                <input type="number" min={1} step={100} value={fab.feedRate} onChange={(e)=> setFab({ feedRate: Math.max(1, parseFloat(e.target.value || '1500')) })}
+                  className="w-20 border rounded px-2 py-1"/>
+              </label>
+              <label className="flex items-center gap-1">Pen up
+                <input value={fab.penUp} onChange={(e)=> setFab({ penUp: e.target.value })} className="w-24 border rounded px-2 py-1 font-mono"/>
+              </label>
+              <label className="flex items-center gap-1">Pen down
+                <input value={fab.penDown} onChange={(e)=> setFab({ penDown: e.target.value })} className="w-24 border rounded px-2 py-1 font-mono"/>
+              </label>
+              <button onClick={() => exportFab(writeGCode, 'text/plain', 'tile.gcode')} className="px-2 py-1 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700">G-code</button>
+              <div className="h-6 w-px bg-emerald-200"/>
+              <select value={fab.stlMode} onChange={(e)=> setFab({ stlMode: e.target.value })} className="border rounded px-2 py-1">
+                <option value="solid">Solid tile</option>
+                <option value="cutter">Cookie cutter</option>
+              </select>
+              <label className="flex items-center gap-1" title="Extrusion height (mm)">Height
+                <input type="number" min={0.1} step={0.5} value={fab.height} onChange={(e)=> setFab({ height: Math.max(0.1, parseFloat(e.target.value || '10')) })}
+                  className="w-16 border rounded px-2 py-1"/>
+              </label>
+              {fab.stlMode === 'cutter' && (
+                <label className="flex items-center gap-1" title="Wall thickness inside the outline (mm)">Wall
+                  <input type="number" min={0.2} step={0.1} value={fab.wall} onChange={(e)=> setFab({ wall: Math.max(0.2, parseFloat(e.target.value || '1.2')) })}
+                    className="w-16 border rounded px-2 py-1"/>
+                </label>
+              )}
+              <button onClick={() => exportFab(writeSTL, 'model/stl', 'tile.stl')} className="px-2 py-1 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700">STL</button>
+              <button onClick={() => setShowFab(false)} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Close</button>
+              {fabError && <span className="text-red-600">{fabError}</span>}
+            </div>
+          </div>
+        )}
+        {space === 'plane' && printOpts && (
+          <div className="bg-violet-50 border-t border-violet-200">
+            <div className="max-w-7xl mx-auto px-3 py-2 flex flex-wrap items-center gap-3 text-sm">
+              <select value={printOpts.paper} onChange={(e)=> setPrintOpts({ ...printOpts, paper: e.target.value })} className="border rounded px-2 py-1">
+                {PRINT_PAPERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <label className="flex items-center gap-1" title="Millimetres per tile unit (shared with Fabricate)">mm/unit
+                <input type="number" min={0.01} step={0.05} value={fab.mmPerUnit} onChange={(e)=> setFab({ mmPerUnit: Math.max(0.01, parseFloat(e.target.value || '0.25')) })}
+                  className="w-20 border rounded px-2 py-1"/>
+              </label>
+              <span className="text-gray-600 tabular-nums">{tileSizeMM[0].toFixed(1)} × {tileSizeMM[1].toFixed(1)} mm</span>
+              <label className="flex items-center gap-1">Pages
+                <input type="number" min={1} max={50} step={1} value={printOpts.pages} onChange={(e)=> setPrintOpts({ ...printOpts, pages: Math.max(1, Math.min(50, parseInt(e.target.value || '1', 10))) })}
+                  className="w-14 border rounded px-2 py-1"/>
+              </label>
+              <label className="flex items-center gap-1" title="Every other copy is mirrored"><input type="checkbox" checked={printOpts.mirror} onChange={(e)=> setPrintOpts({ ...printOpts, mirror: e.target.checked })}/> Mirrored copies</label>
+              <label className="flex items-center gap-1"><input type="checkbox" checked={printOpts.cropMarks} onChange={(e)=> setPrintOpts({ ...printOpts, cropMarks: e.target.checked })}/> Crop marks</label>
+              <label className="flex items-center gap-1"><input type="checkbox" checked={printOpts.registration} onChange={(e)=> setPrintOpts({ ...printOpts, registration: e.target.checked })}/> Registration marks</label>
+              <label className="flex items-center gap-1" title="Adds a page with the assembly"><input type="checkbox" checked={printOpts.thumbnail} disabled={instances.length === 0} onChange={(e)=> setPrintOpts({ ...printOpts, thumbnail: e.target.checked })}/> Assembly page</label>
+              <button onClick={exportPrintPDF} className="px-2 py-1 rounded-xl bg-violet-600 text-white hover:bg-violet-700">Download PDF</button>
+              <button onClick={() => setPrintOpts(null)} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Close</button>
+              {printError && <span className="text-red-600">{printError}</span>}
+            </div>
+          </div>
+        )}
       </header>
 
-      {/* Work Area */}
+      {/* Work Area; the plane views stay mounted while the disk is shown */}
       <div className="max-w-7xl mx-auto grid md:grid-cols-2 gap-6 p-4">
+        {space === 'disk' && (
+          <>
+            {/* Circle Limit Designer */}
+            <section className="bg-white rounded-2xl shadow p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold">1) Circle Limit Tile</h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <label title="Sides of the base polygon">p <input className="w-16 border rounded px-2 py-1 ml-1" type="number" min={3} max={12} value={hyper.p}
+                    onChange={(e)=> setHyperBase(parseInt(e.target.value||'0',10), hyper.q)}/></label>
+                  <label title="Polygons meeting at each corner">q <input className="w-16 border rounded px-2 py-1 ml-1" type="number" min={3} max={12} value={hyper.q}
+                    onChange={(e)=> setHyperBase(hyper.p, parseInt(e.target.value||'0',10))}/></label>
+                  <input type="color" value={hyper.tileFill} onChange={(e)=> set(s => ({ ...s, hyper: { ...s.hyper, tileFill: e.target.value } }), 'Tile color', 'hyperFill')}
+                    className="h-8 w-10 border rounded" title="Tile fill"/>
+                </div>
+              </div>
+              <div className="border rounded-xl overflow-hidden">
+                <svg ref={diskEditorRef} width={2*DISK_VIEW} height={2*DISK_VIEW} viewBox={`${-DISK_VIEW} ${-DISK_VIEW} ${2*DISK_VIEW} ${2*DISK_VIEW}`}
+                  className="w-full h-auto cursor-crosshair" onMouseDown={onDiskEditorMouseDown}>
+                  <circle cx={0} cy={0} r={HYPER_R} fill="#ffffff" stroke="#a0a0a0" strokeWidth={1.5}/>
+                  {/* The {p,q} tiling as a guide, and the base polygon */}
+                  <path d={hyperGuidePath} fill="none" stroke="#e5e7eb" strokeWidth={1} pointerEvents="none"/>
+                  <path d={hyperMPPath([[hyperTile.outline]])} fill="none" stroke="#a0a0a0" strokeWidth={2}/>
+                  <path d={hyperMPPath(hyper.tileMP)} fill={hyper.tileFill} fillRule="evenodd" stroke="#1e40af" strokeWidth={2}/>
+                  {/* Slide: the source edge in amber, where it lands in green; edges are numbered */}
+                  {hyperMode==='slide' && hyperTile.slides.filter(sl => sl.id === hyperSlide).map(sl => (
+                    <g key={sl.id} fill="none" strokeWidth={4} pointerEvents="none">
+                      <path d={geodesicPath(sl.edge.map(kleinToDisk), false)} stroke="#f59e0b"/>
+                      <path d={geodesicPath(sl.edge.map(k => applyMobius(sl.m, kleinToDisk(k))), false)} stroke="#22c55e"/>
+                    </g>
+                  ))}
+                  {hyperMode==='slide' && hyperTile.pivots.filter(pv => pv.id.startsWith('m')).map((pv, i) => {
+                    const [x, y] = kleinToDisk(pv.p);
+                    return <text key={pv.id} x={x * HYPER_R * 0.85} y={y * HYPER_R * 0.85} fontSize={12} textAnchor="middle" dominantBaseline="middle" fill="#6b7280" pointerEvents="none">{i + 1}</text>;
+                  })}
+                  {/* Draft, with geodesic edges */}
+                  {hyperDraft.length>=1 && (
+                    <>
+                      <path d={geodesicPath(hyperDraft.map(kleinToDisk), false)} fill="none" stroke="#ef4444" strokeDasharray="4 4" strokeWidth={2}/>
+                      {hyperDraft.map((k, idx) => {
+                        const [x, y] = kleinToDisk(k);
+                        return <circle key={idx} cx={x * HYPER_R} cy={y * HYPER_R} r={3} fill={idx===0?"#22c55e":"#ef4444"}/>;
+                      })}
+                    </>
+                  )}
+                  {hyperIssues.flatMap((issue, ii) => issue.points.map((k, pi) => {
+                    const [x, y] = kleinToDisk(k);
+                    return <circle key={`issue${ii}-${pi}`} cx={x * HYPER_R} cy={y * HYPER_R} r={7} fill="none" strokeWidth={2}
+                      stroke={issue.level === 'error' ? '#dc2626' : '#d97706'} pointerEvents="none"/>;
+                  }))}
+                  {/* Cut & Turn pivots */}
+                  {hyperMode==='turn' && hyperTile.pivots.map(pv => {
+                    const [x, y] = kleinToDisk(pv.p);
+                    return (
+                      <circle key={pv.id} cx={x * HYPER_R} cy={y * HYPER_R} r={pv.id===hyperPivot?7:5}
+                        fill={pv.id===hyperPivot?"#f59e0b":"#ffffff"} stroke="#b45309" strokeWidth={2} className="cursor-pointer"
+                        onMouseDown={(e)=> { e.stopPropagation(); setHyperPivot(pv.id); }}>
+                        <title>{pv.label}</title>
+                      </circle>
+                    );
+                  })}
+                </svg>
+              </div>
+              {(opError || hyperIssues.length > 0) && (
+                <div className="mt-2 space-y-1 text-sm">
+                  {opError && <div className="px-2 py-1 rounded bg-red-50 border border-red-200 text-red-700">{opError}</div>}
+                  {hyperIssues.map((issue, idx) => (
+                    <div key={idx} className={issue.level === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                      {issue.level === 'error' ? '✕' : '⚠'} {issue.message}
+                    </div>
+                  ))}
+                  {hyperRepairable && (
+                    <button onClick={repairHyperDraft} className="px-2 py-0.5 rounded-xl border hover:bg-gray-100"
+                      title="Remove duplicate points and merge points lying on a straight run">Repair draft</button>
+                  )}
+                </div>
+              )}
+              <p className="text-sm text-gray-600 mt-2 leading-relaxed">
+                The tile starts as a regular {'{'}p,q{'}'} polygon: p sides, q of them around each corner, with (p − 2)(q − 2) &gt; 4. Click in the disk to draw a draft; its edges are geodesics, the circle arcs that meet the rim at right angles.
+                With even p, <b>Cut &amp; Slide</b> moves the cut piece to the opposite edge along a hyperbolic translation; <b>Cut ⟳ Turn</b> rotates it about a corner by 360°/q or about an edge midpoint by 180°, which works for any p.
+              </p>
+            </section>
+
+            {/* Circle Limit Assembly */}
+            <section className="bg-white rounded-2xl shadow p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold">2) Circle Limit Assembly</h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <button onClick={addDiskInstance} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Place Tile</button>
+                  <button onClick={clearDiskInstances} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Clear Tiles</button>
+                  <button onClick={exportDiskSVG} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Export SVG</button>
+                </div>
+              </div>
+              {diskSelected && (
+                <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+                  <button onClick={() => rotateDiskSelected(-hyperTile.rotStep)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title={`Rotate ${+hyperTile.rotStep.toFixed(1)}° counter-clockwise ([)`}>⟲ {+hyperTile.rotStep.toFixed(1)}°</button>
+                  <button onClick={() => rotateDiskSelected(hyperTile.rotStep)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title={`Rotate ${+hyperTile.rotStep.toFixed(1)}° clockwise (])`}>⟳ {+hyperTile.rotStep.toFixed(1)}°</button>
+                  <label className="flex items-center gap-1">Color
+                    <input type="color" value={diskSelectedColor} onChange={(e)=> colorDiskSelected(e.target.value)} className="h-8 w-10 border rounded"/>
+                  </label>
+                  <button onClick={duplicateDiskSelected} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Duplicate onto a neighbouring place (Ctrl/Cmd+D)">Duplicate</button>
+                  <button onClick={deleteDiskSelected} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Delete (Del)">Delete</button>
+                </div>
+              )}
+              <div className="border rounded-xl overflow-hidden">
+                <svg ref={diskAssemblyRef} width={2*DISK_VIEW} height={2*DISK_VIEW} viewBox={`${-DISK_VIEW} ${-DISK_VIEW} ${2*DISK_VIEW} ${2*DISK_VIEW}`}
+                  className="w-full h-auto bg-white" onMouseDown={onDiskMouseDown} onMouseMove={onDiskMouseMove}>
+                  <circle cx={0} cy={0} r={HYPER_R} fill="#ffffff" stroke="#0f172a" strokeWidth={1.5}/>
+                  <path d={hyperGuidePath} fill="none" stroke="#e5e7eb" strokeWidth={1} pointerEvents="none"/>
+                  {hyper.instances.map(inst => {
+                    const selected = inst.id === diskSelected;
+                    return (
+                      <path key={inst.id} d={hyperMPPath(hyper.tileMP, inst.m)} fill={inst.color || hyper.tileFill} fillRule="evenodd" className="cursor-move"
+                        stroke={selected ? "#2563eb" : "#0f172a"} strokeWidth={(selected ? 3 : 1.5) * diskScale(inst.m)}/>
+                    );
+                  })}
+                </svg>
+              </div>
+              <p className="text-sm text-gray-600 mt-2">Place copies and drag them: each drag moves the copy by a hyperbolic isometry, so it shrinks as it nears the rim. With Snap on, copies settle on the places of the {'{'}p,q{'}'} tiling shown in grey; <kbd>[</kbd>/<kbd>]</kbd> turn the selected copy about its centre.
+                The SVG export writes every edge as a true circle arc.</p>
+            </section>
+          </>
+        )}
         {/* Tile Designer */}
-        <section className="bg-white rounded-2xl shadow p-4">
+        <section className={`bg-white rounded-2xl shadow p-4 ${space === 'plane' ? '' : 'hidden'}`}>
           <div className="flex items-center justify-between mb-2">
             <h2 className="font-semibold">1) Tile Designer</h2>
             <div className="flex items-center gap-2 text-sm">
+              <select value={baseKind} onChange={(e)=> setBase(e.target.value, baseAngle)} className="border rounded px-2 py-1" title="Base tile shape">
+                {BASE_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+              </select>
+              {baseKind==='parallelogram' && (
+                <label>∠ <input className="w-16 border rounded px-2 py-1 ml-1" type="number" min={30} max={150} value={baseAngle}
+                  onChange={(e)=> setBase(baseKind, Math.max(30, Math.min(150, parseInt(e.target.value||'60',10))))}/></label>
+              )}
               <label>W <input className="w-20 border rounded px-2 py-1 ml-1" type="number" value={tileW}
                 onChange={(e)=> setTileSize(Math.max(40,parseInt(e.target.value||'100',10)), tileH)}/></label>
               <label>H <input className="w-20 border rounded px-2 py-1 ml-1" type="number" value={tileH}
+                disabled={baseKind==='square' || baseKind==='hexagon' || baseKind==='triangle'}
                 onChange={(e)=> setTileSize(tileW, Math.max(40,parseInt(e.target.value||'100',10)))}/></label>
             </div>
           </div>
 
+          {/* Tile library: the designer edits one prototype at a time */}
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+            <select value={activePrototype} onChange={(e)=> switchPrototype(e.target.value)} className="border rounded px-2 py-1" title="Tile being designed">
+              {allPrototypes.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <input value={protoShapes[activePrototype].proto.name} onChange={(e)=> renamePrototype(e.target.value)} className="w-28 border rounded px-2 py-1" title="Tile name"/>
+            <input type="color" value={tileFill} onChange={(e)=> set(s => ({ ...s, tileFill: e.target.value }), 'Tile color', 'tileFill')} className="h-8 w-10 border rounded" title="Tile fill"/>
+            <button onClick={() => addPrototype(false)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Start another tile from a plain base">New Tile</button>
+            <button onClick={() => addPrototype(true)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Copy this tile to branch a variation">Duplicate</button>
+            <button disabled={allPrototypes.length<=1 || activeInUse} onClick={deletePrototype} className="px-2 py-1 rounded-xl border hover:bg-gray-100 disabled:opacity-40"
+              title={activeInUse ? 'Placed in the assembly; remove those tiles first' : 'Delete this tile'}>Delete</button>
+          </div>
           <div className="border rounded-xl overflow-hidden relative">
-            <svg ref={editorSvgRef} width={tileW} height={tileH} viewBox={`0 0 ${tileW} ${tileH}`} className="w-full h-auto bg-[url('data:image/svg+xml;utf8,')] cursor-crosshair" onClick={onEditorClick}>
-              <Grid w={tileW} h={tileH} step={gridSize} color="#d1d5db"/>
+            <svg ref={editorSvgRef} width={workBounds[2]-workBounds[0]} height={workBounds[3]-workBounds[1]}
+              viewBox={`${workBounds[0]} ${workBounds[1]} ${workBounds[2]-workBounds[0]} ${workBounds[3]-workBounds[1]}`}
+              className="w-full h-auto bg-[url('data:image/svg+xml;utf8,')] cursor-crosshair focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+              tabIndex={0} aria-label="Tile editor. While drawing, arrow keys move the cursor (Shift by a grid step), Space places a point and Enter closes the draft."
+              onClick={onEditorClick} onMouseDown={onEditorMouseDown} onMouseMove={onEditorMouseMove} onDoubleClick={onEditorDoubleClick}
+              onMouseLeave={() => setSnapHint(null)} onKeyDown={onEditorKeyDown}>
+              <Grid x={workBounds[0]} y={workBounds[1]} w={workBounds[2]-workBounds[0]} h={workBounds[3]-workBounds[1]} step={gridSize} color="#d1d5db"/>
               {/* Base Tile Boundary */}
-              <rect x={0} y={0} width={tileW} height={tileH} fill="none" stroke="#a0a0a0" strokeWidth={2}/>
-              {/* Current tile shape */}
-              <path d={mpToPath(tileMP)} fill="#bfdbfe" stroke="#1e40af" strokeWidth={2} />
+              <path d={ringToPath(base.outline)} fill="none" stroke="#a0a0a0" strokeWidth={2}/>
+              {/* Current tile shape, with its decoration layers clipped to it */}
+              <defs>
+                <clipPath id="editor-tile-clip"><path d={mpToPath(tileMP)} clipRule="evenodd"/></clipPath>
+              </defs>
+              <path d={mpToPath(tileMP)} fill={tileFill} stroke="#1e40af" strokeWidth={2} />
+              <g clipPath="url(#editor-tile-clip)" pointerEvents="none">{protoShapes[activePrototype].layers}</g>
+              {/* Validity: overlaps with neighbours in red, uncovered gaps in amber */}
+              {validity.overlaps.length > 0 && <path d={mpToPath(validity.overlaps)} fill="#ef4444" fillOpacity={0.5} stroke="#b91c1c" strokeWidth={1} pointerEvents="none"/>}
+              {validity.gaps.length > 0 && <path d={mpToPath(validity.gaps)} fill="#f59e0b" fillOpacity={0.5} stroke="#b45309" strokeWidth={1} pointerEvents="none"/>}
               {/* Draft shape */}
               {draftShape.length>=1 && (
                 <>
@@ -468,47 +2341,277 @@ export default function EscherLab() {
                   {draftShape.map((p,idx) => (
                     <circle key={idx} cx={p[0]} cy={p[1]} r={3} fill={idx===0?"#22c55e":"#ef4444"}/>
                   ))}
+                  {/* Bézier handles */}
+                  {draftShape.filter(hasHandle).map((p,idx) => (
+                    <g key={`h${idx}`} stroke="#ef4444" strokeWidth={1}>
+                      {[outHandle(p), inHandle(p)].filter(Boolean).map((h, hi) => (
+                        <React.Fragment key={hi}>
+                          <line x1={p[0]} y1={p[1]} x2={h[0]} y2={h[1]}/>
+                          <rect x={h[0]-2.5} y={h[1]-2.5} width={5} height={5} fill="#ffffff"/>
+                        </React.Fragment>
+                      ))}
+                    </g>
+                  ))}
                 </>
               )}
+              {/* Draft problems: errors ringed in red, warnings in amber */}
+              {draftIssues.flatMap((issue, ii) => issue.points.map((p, pi) => (
+                <circle key={`issue${ii}-${pi}`} cx={p[0]} cy={p[1]} r={7} fill="none" strokeWidth={2}
+                  stroke={issue.level === 'error' ? '#dc2626' : '#d97706'} pointerEvents="none"/>
+              )))}
+              {/* Keyboard drafting cursor */}
+              {drafting && draftCursor && (
+                <path d={`M${draftCursor[0]-8} ${draftCursor[1]} H${draftCursor[0]+8} M${draftCursor[0]} ${draftCursor[1]-8} V${draftCursor[1]+8}`}
+                  stroke="#2563eb" strokeWidth={1.5} pointerEvents="none"/>
+              )}
+              {/* Object snap: square on a vertex, triangle on an edge midpoint, cross on an edge, diamond on a twin */}
+              {drafting && snapHint && snapHint.kind && (() => {
+                const [x, y] = snapHint.p;
+                return (
+                  <g stroke="#db2777" strokeWidth={1.5} fill="none" pointerEvents="none">
+                    {snapHint.kind === 'vertex' && <rect x={x-5} y={y-5} width={10} height={10}/>}
+                    {snapHint.kind === 'midpoint' && <path d={`M${x} ${y-6} L${x+6} ${y+4} L${x-6} ${y+4} Z`}/>}
+                    {snapHint.kind === 'edge' && <path d={`M${x-5} ${y-5} L${x+5} ${y+5} M${x+5} ${y-5} L${x-5} ${y+5}`}/>}
+                    {snapHint.kind === 'twin' && (
+                      <>
+                        <line x1={snapHint.from[0]} y1={snapHint.from[1]} x2={x} y2={y} strokeDasharray="3 3" strokeWidth={1}/>
+                        <path d={`M${x} ${y-6} L${x+6} ${y} L${x} ${y+6} L${x-6} ${y} Z`}/>
+                      </>
+                    )}
+                    <text x={x+8} y={y-8} fontSize={10} fill="#db2777" stroke="none">{snapHint.kind}</text>
+                  </g>
+                );
+              })()}
+              {/* Vertex handles; twins of the selected vertex are linked across the edge pairs */}
+              {mode==='select' && mpVertices(tileMP).map((v, idx) => {
+                const selected = selectedVertex && samePoint(v, selectedVertex);
+                const linked = !selected && linkedToSelected.some(q => samePoint(q, v));
+                return (
+                  <circle key={idx} cx={v[0]} cy={v[1]} r={selected?6:4}
+                    fill={selected?"#1e40af":linked?"#a855f7":"#ffffff"} stroke="#1e40af" strokeWidth={1.5} className="cursor-move"
+                    onMouseDown={(e)=> onVertexMouseDown(e, v)} onClick={(e)=> e.stopPropagation()}/>
+                );
+              })}
+              {/* Cut & Turn pivots */}
+              {mode==='cutTurn' && turnPivots(base).map(pv => (
+                <circle key={pv.id} cx={pv.p[0]} cy={pv.p[1]} r={pv.id===turn.turnPivot?7:5}
+                  fill={pv.id===turn.turnPivot?"#f59e0b":"#ffffff"} stroke="#b45309" strokeWidth={2} className="cursor-pointer"
+                  onClick={(e)=> { e.stopPropagation(); setTurnPivot(pv.id); }}>
+                  <title>{pv.label}</title>
+                </circle>
+              ))}
             </svg>
           </div>
+          {/* Typed coordinates: edit a draft point, or place a new one */}
+          {drafting && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+              <select value={coordPoint ? coordIndex : 'new'} onChange={(e)=> setCoordIndex(e.target.value === 'new' ? null : Number(e.target.value))}
+                className="border rounded px-2 py-1" title="Draft point to edit">
+                <option value="new">New point</option>
+                {draftShape.map((_, idx) => <option key={idx} value={idx}>Point {idx + 1}</option>)}
+              </select>
+              {[0, 1].map(axis => {
+                const p = coordPoint || draftCursor;
+                return (
+                  <label key={axis} className="flex items-center gap-1">
+                    {axis === 0 ? 'X' : 'Y'}
+                    <input type="number" step={1} value={p ? +p[axis].toFixed(2) : ''} onChange={(e)=> setDraftCoord(axis, parseFloat(e.target.value))}
+                      className="w-20 border rounded px-1"/>
+                  </label>
+                );
+              })}
+              {!coordPoint && (
+                <button disabled={!draftCursor} onClick={addTypedPoint} className="px-2 py-0.5 rounded-xl border hover:bg-gray-100 disabled:opacity-40"
+                  title="Add a draft point at these coordinates">Add Point</button>
+              )}
+            </div>
+          )}
+          {(opError || draftIssues.length > 0) && (
+            <div className="mt-2 space-y-1 text-sm">
+              {opError && <div className="px-2 py-1 rounded bg-red-50 border border-red-200 text-red-700">{opError}</div>}
+              {draftIssues.map((issue, idx) => (
+                <div key={idx} className={issue.level === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                  {issue.level === 'error' ? '✕' : '⚠'} {issue.message}
+                </div>
+              ))}
+              {repairable && (
+                <button onClick={repairCurrentDraft} className="px-2 py-0.5 rounded-xl border hover:bg-gray-100"
+                  title="Remove duplicate points and merge points lying on a straight run">Repair draft</button>
+              )}
+            </div>
+          )}
+          {/* Decoration layers, listed top-most first */}
+          <div className="mt-3 border rounded-xl p-2 text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium">Decoration Layers</span>
+              <button onClick={addLayer} className="px-2 py-0.5 rounded-xl border hover:bg-gray-100">+ Layer</button>
+            </div>
+            <ul className="space-y-1">
+              {layers.map((l, idx) => (
+                <li key={l.id} className={`flex items-center gap-2 px-1 rounded ${l.id===currentLayerId ? 'bg-blue-50' : ''}`}>
+                  <input type="radio" checked={l.id===currentLayerId} onChange={()=> set(s => ({ ...s, activeLayer: l.id }))} title="Paint into this layer"/>
+                  <input type="checkbox" checked={l.visible} onChange={()=> updateLayer(l.id, x => ({ visible: !x.visible }), l.visible ? 'Hide layer' : 'Show layer')} title="Visible"/>
+                  <input value={l.name} onChange={(e)=> updateLayer(l.id, () => ({ name: e.target.value }), 'Rename layer', `rename:${l.id}`)}
+                    className="flex-1 min-w-0 border rounded px-1"/>
+                  <span className="text-gray-500 w-6 text-right" title="Items">{l.items.length}</span>
+                  <button disabled={idx===layers.length-1} onClick={()=> moveLayer(l.id, 1)} className="px-1 disabled:opacity-30" title="Move up">▲</button>
+                  <button disabled={idx===0} onClick={()=> moveLayer(l.id, -1)} className="px-1 disabled:opacity-30" title="Move down">▼</button>
+                  <button disabled={l.items.length===0} onClick={()=> updateLayer(l.id, () => ({ items: [] }), 'Clear layer')} className="px-1 disabled:opacity-30" title="Clear">⌫</button>
+                  <button disabled={layers.length<=1} onClick={()=> removeLayer(l.id)} className="px-1 disabled:opacity-30" title="Delete layer">✕</button>
+                </li>
+              )).reverse()}
+            </ul>
+          </div>
           <p className="text-sm text-gray-600 mt-2 leading-relaxed">
-            Draw a polygon inside the tile (click points; <kbd>Enter</kbd> closes). Choose an action (Union/Subtract or a Cut&Slide direction) then click <b>Apply</b>.
-            Cut&Slide emulates Escher's method: remove a piece on one edge and translate it to the opposite edge. Keep drawing + applying to sculpt your tile.
+            Draw a polygon inside the tile (click points; <kbd>Enter</kbd> closes). Switch the segment type to Bézier or Arc and click-drag to pull out handles or bulges. With <b>Snap</b> on, points catch tile vertices (square), edge midpoints (triangle), edges (cross) and, opposite a point already on the outline, its twin on the partner edge (diamond); otherwise they round to the grid. To draft without a mouse, focus the editor, move the cursor with the arrow keys (<kbd>Shift</kbd> for a grid step) and press <kbd>Space</kbd> to place a point, or type coordinates below the editor. Choose an action (Union/Subtract or a Cut&Slide direction) then click <b>Apply</b>.
+            Cut&Slide emulates Escher's method: remove a piece on one edge and translate it to the opposite edge. Cut&Turn instead rotates the piece about a corner or edge midpoint (pick the pivot in the toolbar or click an orange marker). Cut&Glide mirrors the piece before sliding it, for glide-reflection tilings. Keep drawing + applying to sculpt your tile.
+            In <b>Edit Points</b> mode drag vertices directly: a vertex's twin on the partner edge (purple) moves with it, so the tile keeps tessellating. Double-click an edge to insert a vertex pair; <kbd>Delete</kbd> removes one.
+            <b>Paint</b> adds interior details (eyes, scales, feathers) to the active layer: drag with the brush, or draw a shape and <b>Apply</b> to fill it. Details are clipped to the tile, so they follow later cuts and appear on every placed tile and in the exports.
           </p>
         </section>
 
         {/* Assembly Canvas */}
-        <section className="bg-white rounded-2xl shadow p-4">
+        <section className={`bg-white rounded-2xl shadow p-4 ${space === 'plane' ? '' : 'hidden'}`}>
           <div className="flex items-center justify-between mb-2">
             <h2 className="font-semibold">2) Manual Assembly (No Auto Preview)</h2>
             <div className="flex items-center gap-2 text-sm">
-              <button onClick={addInstance} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Place Tile</button>
+              {allPrototypes.length > 1 && (
+                <select value={placePrototype.id} onChange={(e)=> setPlaceId(e.target.value)} className="border rounded px-2 py-1" title="Tile to place">
+                  {allPrototypes.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              )}
+              <button onClick={() => addInstance(false)} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Place Tile</button>
+              <button onClick={() => addInstance(true)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Place a mirror image for glide-reflection tilings">Place Mirrored</button>
               <button onClick={clearInstances} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Clear Tiles</button>
+              <select value={palette} onChange={(e)=> set(s => ({ ...s, palette: e.target.value }))} className="border rounded px-2 py-1" title="Palette for Auto Color">
+                {PALETTES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <button onClick={autoColor} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Color the tiles so that touching tiles differ, with as few colors as possible">Auto Color</button>
+              {instances.some(i => i.color) && <button onClick={clearColors} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Back to the tile fills">Clear Colors</button>}
+              <button onClick={() => fitReport ? setFitReport(null) : checkFit()} className={`px-2 py-1 rounded-xl border ${fitReport ? 'bg-black text-white' : 'hover:bg-gray-100'}`}
+                title="Measure overlaps and gaps between placed tiles">{fitReport ? 'Hide Fit' : 'Check Fit'}</button>
               <button onClick={exportAssemblySVG} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Export SVG</button>
               <button onClick={exportAssemblyPNG} className="px-2 py-1 rounded-xl border hover:bg-gray-100">Export PNG</button>
             </div>
           </div>
+          {selectedIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+              <span className="text-gray-600">{selectedIds.length} selected</span>
+              <button onClick={() => rotateSelected(-base.rotStep)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title={`Rotate ${base.rotStep}° counter-clockwise ([)`}>⟲ {base.rotStep}°</button>
+              <button onClick={() => rotateSelected(base.rotStep)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title={`Rotate ${base.rotStep}° clockwise (])`}>⟳ {base.rotStep}°</button>
+              <label className="flex items-center gap-1" title="Free rotation about the tile centroid (Shift+[ / ] for 1° steps)">Angle
+                <input type="number" step={1} value={selectedRotation} onChange={(e)=> setSelectedRotation(parseFloat(e.target.value || '0'))}
+                  className="w-20 border rounded px-2 py-1"/>
+              </label>
+              <button onClick={flipSelected} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Mirror (F)">Flip</button>
+              <label className="flex items-center gap-1" title="Hand-picked colors are kept by Auto Color">Color
+                <input type="color" value={selectedColor} onChange={(e)=> colorSelected(e.target.value)} className="h-8 w-10 border rounded"/>
+              </label>
+              {instances.some(i => i.pinned && selectedIds.includes(i.id)) && (
+                <button onClick={unpinSelected} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Let Auto Color choose again">Unpin</button>
+              )}
+              <button onClick={duplicateSelected} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Duplicate (Ctrl/Cmd+D)">Duplicate</button>
+              <button onClick={deleteSelected} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Delete (Del)">Delete</button>
+            </div>
+          )}
 
+          <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+            <button onClick={() => zoomBy(1/1.25)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Zoom out (wheel)">−</button>
+            <span className="w-12 text-center tabular-nums">{Math.round(view.zoom * 100)}%</span>
+            <button onClick={() => zoomBy(1.25)} className="px-2 py-1 rounded-xl border hover:bg-gray-100" title="Zoom in (wheel)">+</button>
+            <button onClick={fitAll} disabled={instances.length===0} className="px-2 py-1 rounded-xl border hover:bg-gray-100 disabled:opacity-40">Fit All</button>
+            <div className="ml-auto flex items-center gap-2">
+              <label className="flex items-center gap-1" title="Space around the placed tiles in exports">Margin
+                <input type="number" min={0} step={5} value={exportMargin} onChange={(e)=> setExportMargin(Math.max(0, parseFloat(e.target.value || '0')))}
+                  className="w-16 border rounded px-2 py-1"/>
+              </label>
+              <label className="flex items-center gap-1" title="PNG pixels per unit">PNG
+                <select value={pngScale} onChange={(e)=> setPngScale(parseFloat(e.target.value))} className="border rounded px-2 py-1">
+                  {[1, 2, 3, 4, 8].map(k => <option key={k} value={k}>{k}×</option>)}
+                </select>
+              </label>
+            </div>
+          </div>
           <div className="border rounded-xl overflow-hidden">
-            <svg ref={assemblySvgRef} width={1200} height={800} viewBox="0 0 1200 800"
+            <svg ref={assemblySvgRef} width={VIEWPORT_W} height={VIEWPORT_H} viewBox={viewBoxOf(view).join(' ')}
               onMouseDown={onAssemblyMouseDown} onMouseMove={onAssemblyMouseMove}
-              className="w-full bg-white">
-              <Grid w={1200} h={800} step={gridSize} color="#d1d5db"/>
-              {/* Draw each instance */}
-              {instances.map(inst => (
-                <g key={inst.id} transform={`translate(${inst.x}, ${inst.y}) rotate(${inst.rot})`}>
-                  <path data-id={inst.id} d={mpToPath(tileMP)} fill="#bfdbfe" stroke="#0f172a" strokeWidth={1.5} className="cursor-move"/>
-                </g>
-              ))}
+              onMouseEnter={() => { pointerOnAssemblyRef.current = true; }} onMouseLeave={() => { pointerOnAssemblyRef.current = false; }}
+              tabIndex={0} aria-label="Assembly canvas"
+              className={`w-full bg-white focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${spaceDown ? 'cursor-grab' : ''}`}>
+              {(([x, y, w, h]) => <Grid x={x} y={y} w={w} h={h} step={gridStepFor(gridSize, view.zoom)} color="#d1d5db"/>)(viewBoxOf(view))}
+              <defs>
+                {allPrototypes.map(p => (
+                  <clipPath key={p.id} id={`assembly-clip-${p.id}`}><path d={protoShapes[p.id].path} clipRule="evenodd"/></clipPath>
+                ))}
+              </defs>
+              {/* Draw each instance; clip paths live in tile coordinates, so they follow the instance transform */}
+              {instances.map(inst => {
+                const shape = shapeOf(inst);
+                return (
+                  <g key={inst.id} transform={instanceTransform(inst, shape.center)}>
+                    <path data-id={inst.id} d={shape.path} fill={inst.color || shape.proto.tileFill} className="cursor-move"/>
+                    <g clipPath={`url(#assembly-clip-${shape.proto.id})`} pointerEvents="none">{shape.layers}</g>
+                    <path d={shape.path} fill="none" pointerEvents="none"
+                      stroke={selectedIds.includes(inst.id) ? "#2563eb" : "#0f172a"} strokeWidth={selectedIds.includes(inst.id) ? 3 : 1.5}/>
+                  </g>
+                );
+              })}
+              {marquee && (
+                <rect x={marquee[0]} y={marquee[1]} width={marquee[2]-marquee[0]} height={marquee[3]-marquee[1]}
+                  fill="#3b82f6" fillOpacity={0.1} stroke="#3b82f6" strokeDasharray="4 4" pointerEvents="none"/>
+              )}
+              {/* Fit check: overlaps in red, gaps in amber */}
+              {fitReport && fitReport.overlaps.length > 0 && <path d={mpToPath(fitReport.overlaps)} fill="#ef4444" fillOpacity={0.6} stroke="#b91c1c" strokeWidth={1} pointerEvents="none"/>}
+              {fitReport && fitReport.gaps.length > 0 && <path d={mpToPath(fitReport.gaps)} fill="#f59e0b" fillOpacity={0.6} stroke="#b45309" strokeWidth={1} pointerEvents="none"/>}
             </svg>
           </div>
-          <p className="text-sm text-gray-600 mt-2">Drag tiles to fit them together like a puzzle. With Snap on, tiles snap to the base tile size grid ({tileW}×{tileH}). No automatic duplication is performed.</p>
+          {assemblyError && <div className="mt-2 px-2 py-1 rounded bg-red-50 border border-red-200 text-red-700 text-sm">{assemblyError}</div>}
+          {fitReport && (
+            <div className="mt-2 text-sm">
+              {fitReport.pairs.length === 0 && fitReport.enclosed <= AREA_EPS
+                ? <p className="text-green-700">All placed tiles fit: no overlaps or gaps found.</p>
+                : (
+                  <ul className="space-y-0.5">
+                    {fitReport.pairs.map(pr => (
+                      <li key={`${pr.a}-${pr.b}`}>
+                        Tile {pr.a + 1} ↔ Tile {pr.b + 1}:
+                        {pr.overlap > AREA_EPS && <span className="text-red-700"> overlap {pr.overlap.toFixed(1)}</span>}
+                        {pr.gap > AREA_EPS && <span className="text-amber-700"> gap {pr.gap.toFixed(1)}</span>}
+                      </li>
+                    ))}
+                    {fitReport.enclosed > AREA_EPS && <li className="text-amber-700">Enclosed gaps: {fitReport.enclosed.toFixed(1)}</li>}
+                  </ul>
+                )}
+            </div>
+          )}
+          <p className="text-sm text-gray-600 mt-2">Drag tiles to fit them together like a puzzle; scroll to zoom and hold <kbd>Space</kbd> (or the middle button) while dragging to pan. With Snap on, tiles snap onto the cells of the base tiling, turned and mirrored tiles included. No automatic duplication is performed.
+            Shift-click or drag a box to select several tiles; arrows nudge, <kbd>[</kbd>/<kbd>]</kbd> rotate about the tile centroid, <kbd>F</kbd> flips.
+            <b>Auto Color</b> paints touching tiles in different palette colors; a color picked for selected tiles by hand is kept when you recolor.</p>
         </section>
       </div>
 
+      {/* History Panel: click an entry to jump to the state right after it */}
+      {showHistory && (
+        <aside className="fixed right-0 top-0 bottom-0 z-20 w-64 bg-white border-l shadow-lg flex flex-col">
+          <div className="flex items-center justify-between p-3 border-b">
+            <h2 className="font-semibold">History</h2>
+            <button onClick={() => setShowHistory(false)} className="px-2 py-0.5 rounded-xl border hover:bg-gray-100">✕</button>
+          </div>
+          <ol className="flex-1 overflow-y-auto p-2 text-sm">
+            {['Start', ...historyLabels].map((label, i) => (
+              <li key={i}>
+                <button onClick={() => jump(i)}
+                  className={`w-full text-left px-2 py-1 rounded ${i === historyIndex ? 'bg-blue-100 font-medium' : i > historyIndex ? 'text-gray-400 hover:bg-gray-50' : 'hover:bg-gray-50'}`}>
+                  {label}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </aside>
+      )}
+
       <footer className="max-w-7xl mx-auto px-4 pb-10 text-xs text-gray-500">
-        <p>Tips: Use small polygons repeatedly to carve detail. Make sure your cut polygons cross the intended edge; the tool translates the exact shape by the tile size. Try alternating horizontal and vertical cut-slides to get complex Escher-like tiles.</p>
+        <p>Tips: Use small polygons repeatedly to carve detail. Make sure your cut polygons cross the intended edge; the tool translates the exact shape by the base tile's edge vector. Try alternating horizontal and vertical cut-slides to get complex Escher-like tiles.</p>
       </footer>
     </div>
   );
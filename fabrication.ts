@@ -0,0 +1,316 @@
+// File writers for making the tile: DXF and G-code outlines for cutters and plotters, STL solids for
+// 3D printers, and PDF sheets of copies to cut out by hand. They take the tile in tile units and return
+// file text, in millimetres for the machine formats.
+// Like geometry.ts nothing here touches React or the DOM, so the editor and tests share it.
+
+import * as pc from "polygon-clipping"; // MultiPolygon boolean ops
+import {
+  flattenDraft, mpBounds, openRing, pointInRing, samePoint, unionBounds,
+  type FabSettings, type Layer, type MultiPolygon, type Point, type Ring,
+} from "./geometry";
+
+/******************** Fabrication Export ********************/
+// Machine coordinates have y up, so the tile is mirrored vertically (it looks the same as on screen),
+// then moved so its bounds start at 0,0.
+export const FAB_DEFAULTS: FabSettings = {
+  mmPerUnit: 0.25,
+  kerf: 0, // mm removed by the laser/blade; outlines are offset outward by half of it
+  feedRate: 1500, // mm/min while drawing
+  penUp: 'M5',
+  penDown: 'M3 S1000',
+  stlMode: 'solid',
+  height: 10, // mm
+  wall: 1.2, // mm, cookie-cutter wall inside the outline
+};
+// Longest mitre offsetMP() keeps at a corner, as a multiple of the offset distance (SVG's default
+// stroke-miterlimit); sharper corners are bevelled
+const FAB_MITRE_LIMIT = 4;
+
+const fmtMM = (v: number): string => String(+v.toFixed(4) || 0);
+
+// Twice the signed area: positive when the ring turns counterclockwise in y-up coordinates
+const signedArea2 = (ring: Ring): number =>
+  ring.reduce((acc, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return acc + x1*y2 - x2*y1;
+  }, 0);
+
+// Grow (d > 0) or shrink (d < 0) a MultiPolygon by |d| with mitred corners. Each edge sweeps a band of
+// width |d| away from (or into) the filled side, and corners that open a gap between two bands get the
+// mitre wedge up to where the offset edges meet. Growing unions the bands with the shape, shrinking
+// subtracts them, so overlaps at concave corners and between nearby edges need no special handling.
+export const offsetMP = (mp: MultiPolygon, d: number): MultiPolygon => {
+  if (!d) return mp;
+  const pieces: MultiPolygon = [];
+  mp.forEach(poly => poly.forEach((raw, ringIndex) => {
+    const ring = openRing(raw).filter((p, i, all) => !samePoint(p, all[(i + 1) % all.length]));
+    if (ring.length < 3) return;
+    // Outward normals point away from the filled side: outside outer rings, into holes
+    const side = (ringIndex === 0 ? 1 : -1) * Math.sign(signedArea2(ring));
+    const normals = ring.map((p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      const len = Math.hypot(q[0] - p[0], q[1] - p[1]);
+      return [side * (q[1] - p[1]) / len, side * (p[0] - q[0]) / len];
+    });
+    const shift = (p: Point, n: number[]): Point => [p[0] + n[0]*d, p[1] + n[1]*d];
+    ring.forEach((p, i) => {
+      const q = ring[(i + 1) % ring.length], n = normals[i];
+      pieces.push([[p, q, shift(q, n), shift(p, n), p]]);
+      // Corner at q, between this edge and the next
+      const m = normals[(i + 1) % ring.length];
+      const turn = n[0]*m[1] - n[1]*m[0];
+      if (side * turn * d <= 0 || Math.abs(turn) < 1e-12) return;
+      const a = shift(q, n), b = shift(q, m);
+      const k = 1 / (1 + n[0]*m[0] + n[1]*m[1]);
+      const mitre: Point = [q[0] + (n[0] + m[0]) * k * d, q[1] + (n[1] + m[1]) * k * d];
+      pieces.push(Math.hypot(mitre[0] - q[0], mitre[1] - q[1]) <= FAB_MITRE_LIMIT * Math.abs(d) ? [[q, a, mitre, b, q]] : [[q, a, b, q]]);
+    });
+  }));
+  if (pieces.length === 0) return mp;
+  return d > 0 ? pc.union(mp, ...pieces) : pc.difference(mp, ...pieces);
+};
+
+// Rings in machine millimetres: open, y up, bounds starting at the origin. Coordinates are snapped to
+// the precision written out, so values that differ only by float noise become equal.
+const toMachineRings = (mp: MultiPolygon, mmPerUnit: number): MultiPolygon => {
+  const [x0, , , y1] = mpBounds(mp);
+  const snapMM = (v: number) => Math.round(v * 1e4) / 1e4;
+  return mp.map(poly => poly.map(ring => openRing(ring).map((p): Point => [snapMM((p[0] - x0) * mmPerUnit), snapMM((y1 - p[1]) * mmPerUnit)])));
+};
+
+// DXF (R12, millimetres): one closed POLYLINE per ring, offset outward by half the kerf
+export const writeDXF = (mp: MultiPolygon, fab: FabSettings): string => {
+  const out = ['0', 'SECTION', '2', 'HEADER', '9', '$INSUNITS', '70', '4', '0', 'ENDSEC', '0', 'SECTION', '2', 'ENTITIES'];
+  toMachineRings(offsetMP(mp, fab.kerf / 2 / fab.mmPerUnit), fab.mmPerUnit).forEach(poly => poly.forEach(ring => {
+    out.push('0', 'POLYLINE', '8', 'TILE', '66', '1', '70', '1');
+    ring.forEach(p => out.push('0', 'VERTEX', '8', 'TILE', '10', fmtMM(p[0]), '20', fmtMM(p[1])));
+    out.push('0', 'SEQEND', '8', 'TILE');
+  }));
+  out.push('0', 'ENDSEC', '0', 'EOF');
+  return out.join('\n') + '\n';
+};
+
+// G-code for a pen plotter or laser: each ring is traced once with the pen down, travel moves with it up
+export const writeGCode = (mp: MultiPolygon, fab: FabSettings): string => {
+  const lines = ['; Escher Tessellation Lab tile', 'G21 ; millimetres', 'G90 ; absolute coordinates', fab.penUp];
+  toMachineRings(offsetMP(mp, fab.kerf / 2 / fab.mmPerUnit), fab.mmPerUnit).forEach(poly => poly.forEach(ring => {
+    lines.push(`G0 X${fmtMM(ring[0][0])} Y${fmtMM(ring[0][1])}`, fab.penDown);
+    [...ring.slice(1), ring[0]].forEach((p, i) => lines.push(`G1 X${fmtMM(p[0])} Y${fmtMM(p[1])}${i === 0 ? ` F${fab.feedRate}` : ''}`));
+    lines.push(fab.penUp);
+  }));
+  lines.push('G0 X0 Y0', 'M2');
+  return lines.join('\n') + '\n';
+};
+
+type Vec3 = [number, number, number];
+type Facet = { n: Vec3; v: [Vec3, Vec3, Vec3] };
+type Edge = { a: Point; b: Point; lo: Point; hi: Point };
+
+// Closed triangle mesh of `rings` (machine mm, even-odd filled) extruded from z = 0 to `height`.
+// Caps are cut into trapezoids between consecutive vertex heights; side walls are split at the same
+// heights, so caps and walls share every vertex and the mesh stays watertight.
+const extrudeRings = (rings: Ring[], height: number): Facet[] => {
+  const facets: Facet[] = [];
+  const facet = (a: Vec3, b: Vec3, c: Vec3, want: Vec3) => {
+    const u = [b[0]-a[0], b[1]-a[1], b[2]-a[2]], v = [c[0]-a[0], c[1]-a[1], c[2]-a[2]];
+    const n: Vec3 = [u[1]*v[2] - u[2]*v[1], u[2]*v[0] - u[0]*v[2], u[0]*v[1] - u[1]*v[0]];
+    const len = Math.hypot(n[0], n[1], n[2]);
+    if (len < 1e-12) return;
+    const unit: Vec3 = [n[0] / len, n[1] / len, n[2] / len];
+    if (unit[0]*want[0] + unit[1]*want[1] + unit[2]*want[2] < 0) facets.push({ n: [-unit[0], -unit[1], -unit[2]], v: [a, c, b] });
+    else facets.push({ n: unit, v: [a, b, c] });
+  };
+  const edges: Edge[] = [];
+  rings.forEach(ring => ring.forEach((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    if (a[0] !== b[0] || a[1] !== b[1]) edges.push({ a, b, lo: a[1] <= b[1] ? a : b, hi: a[1] <= b[1] ? b : a });
+  }));
+  // x where an edge crosses height y, computed from its lower end so caps and walls agree exactly
+  const xAt = (e: Edge, y: number) => y === e.lo[1] ? e.lo[0] : y === e.hi[1] ? e.hi[0] : e.lo[0] + (e.hi[0] - e.lo[0]) * (y - e.lo[1]) / (e.hi[1] - e.lo[1]);
+  const ys = [...new Set(edges.map(e => e.a[1]))].sort((p, q) => p - q);
+  const xsOnLine = (y: number) => edges.filter(e => e.lo[1] <= y && e.hi[1] >= y).flatMap(e => e.lo[1] === e.hi[1] ? [e.lo[0], e.hi[0]] : [xAt(e, y)]);
+
+  // Caps
+  for (let k = 0; k + 1 < ys.length; k++) {
+    const y0 = ys[k], y1 = ys[k+1], ym = (y0 + y1) / 2;
+    const across = edges.filter(e => e.lo[1] <= y0 && e.hi[1] >= y1).sort((p, q) => xAt(p, ym) - xAt(q, ym));
+    const bottomXs = xsOnLine(y0), topXs = xsOnLine(y1);
+    for (let i = 0; i + 1 < across.length; i += 2) {
+      const [l, r] = [across[i], across[i+1]];
+      const chain = (xs: number[], y: number, xa: number, xb: number) =>
+        [...new Set([xa, xb, ...xs.filter(x => x > xa && x < xb)])].sort((p, q) => p - q).map((x): Point => [x, y]);
+      const bottom = chain(bottomXs, y0, xAt(l, y0), xAt(r, y0)), top = chain(topXs, y1, xAt(l, y1), xAt(r, y1));
+      // zip the two chains into triangles, then lift them to both caps
+      let i0 = 0, i1 = 0;
+      while (i0 + 1 < bottom.length || i1 + 1 < top.length) {
+        const advanceBottom = i1 + 1 >= top.length || (i0 + 1 < bottom.length && bottom[i0+1][0] <= top[i1+1][0]);
+        const [a, b, c] = advanceBottom ? [bottom[i0], bottom[i0+1], top[i1]] : [bottom[i0], top[i1+1], top[i1]];
+        if (advanceBottom) i0++; else i1++;
+        facet([a[0], a[1], 0], [b[0], b[1], 0], [c[0], c[1], 0], [0, 0, -1]);
+        facet([a[0], a[1], height], [b[0], b[1], height], [c[0], c[1], height], [0, 0, 1]);
+      }
+    }
+  }
+
+  // Walls, facing away from the filled side
+  edges.forEach(e => {
+    const mid = [(e.a[0] + e.b[0]) / 2, (e.a[1] + e.b[1]) / 2];
+    const dx = e.b[0] - e.a[0], dy = e.b[1] - e.a[1], len = Math.hypot(dx, dy);
+    const px = mid[0] + dy / len * 1e-4, py = mid[1] - dx / len * 1e-4;
+    const rightFilled = rings.reduce((inside, ring) => inside !== pointInRing([px, py], ring), false);
+    const out: Vec3 = rightFilled ? [-dy, dx, 0] : [dy, -dx, 0];
+    const cuts: Point[] = [e.lo, ...ys.filter(y => y > e.lo[1] && y < e.hi[1]).map((y): Point => [xAt(e, y), y]), e.hi];
+    for (let i = 0; i + 1 < cuts.length; i++) {
+      const [p, q] = [cuts[i], cuts[i+1]];
+      facet([p[0], p[1], 0], [q[0], q[1], 0], [q[0], q[1], height], out);
+      facet([p[0], p[1], 0], [q[0], q[1], height], [p[0], p[1], height], out);
+    }
+  });
+  return facets;
+};
+
+// ASCII STL: the tile as a solid block, or as a cookie cutter (a wall of `fab.wall` mm inside the outline)
+export const writeSTL = (mp: MultiPolygon, fab: FabSettings): string => {
+  const shape = fab.stlMode === 'cutter' ? pc.difference(mp, offsetMP(mp, -fab.wall / fab.mmPerUnit)) : mp;
+  const rings = toMachineRings(shape, fab.mmPerUnit).flat();
+  const facets = extrudeRings(rings, fab.height);
+  return `solid tile\n${facets.map(f => `facet normal ${f.n.map(fmtMM).join(' ')}\n outer loop\n` +
+    f.v.map(p => `  vertex ${p.map(fmtMM).join(' ')}\n`).join('') + ' endloop\nendfacet\n').join('')}endsolid tile\n`;
+};
+
+/******************** Print Sheets ********************/
+// Printable PDF of tiles to cut out by hand, written directly (no print dialog): as many copies of the
+// tile as fit on each page at fab.mmPerUnit, optionally every other copy mirrored, with crop marks
+// around each copy and registration marks in the page corners, plus an optional assembly thumbnail page.
+// The output depends only on the inputs (no dates or IDs), so the same tile always gives the same bytes.
+export type PrintPaper = { id: string; label: string; w: number; h: number };
+export type PrintOptions = { paper: string; pages: number; mirror: boolean; cropMarks: boolean; registration: boolean; thumbnail: boolean };
+export type PrintTile = { name: string; mp: MultiPolygon; fill: string; layers: Layer[] }; // the designed tile, in tile units
+export type PrintPiece = { mp: MultiPolygon; fill: string }; // an assembly instance in world units, for the thumbnail
+
+export const PRINT_PAPERS: PrintPaper[] = [
+  { id: 'a4', label: 'A4', w: 595.28, h: 841.89 }, // points (1/72 in)
+  { id: 'letter', label: 'Letter', w: 612, h: 792 },
+];
+export const PRINT_DEFAULTS: PrintOptions = { paper: 'a4', pages: 1, mirror: false, cropMarks: true, registration: false, thumbnail: true };
+const PT_PER_MM = 72 / 25.4;
+const PRINT_MARGIN = 12 * PT_PER_MM;
+const PRINT_GAP = 6 * PT_PER_MM; // between copies, leaves room for the crop marks
+const PRINT_CAPTION = 14; // pt reserved at the page bottom for the caption
+const CROP_MARK = [1 * PT_PER_MM, 4 * PT_PER_MM]; // start and end distance from the copy's corner
+
+const fmtPt = (v: number): string => String(+v.toFixed(3) || 0);
+const pdfColor = (hex: string): string => {
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex || '');
+  const full = m ? (m[1].length === 3 ? m[1].replace(/./g, c => c + c) : m[1]) : '000000';
+  return [0, 2, 4].map(i => fmtPt(parseInt(full.slice(i, i + 2), 16) / 255)).join(' ');
+};
+// Literal string for the built-in Helvetica: ASCII only, with ( ) \ escaped
+const pdfText = (s: string): string => `(${String(s).replace(/[^\x20-\x7e]/g, '?').replace(/[()\\]/g, c => '\\' + c)})`;
+const pdfRings = (rings: Ring[]): string => rings.map(ring => openRing(ring).map((p, i) => `${fmtPt(p[0])} ${fmtPt(p[1])} ${i === 0 ? 'm' : 'l'}`).join('\n') + '\nh').join('\n');
+const pdfMP = (mp: MultiPolygon): string => pdfRings(mp.flat());
+
+// PDF objects: catalog, page tree, font, then a page and its content stream per entry of `pages`
+const buildPDF = (pages: string[], paper: PrintPaper): string => {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + 2*i} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((content, i) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmtPt(paper.w)} ${fmtPt(paper.h)}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + 2*i} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const at = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return at;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` + offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return out;
+};
+
+// Tile, clipped decorations and outline, with the tile-unit → page transform already set up by the caller
+const pdfTile = (tile: PrintTile, lineWidth: number): string => {
+  const ops = [`${pdfColor(tile.fill)} rg`, pdfMP(tile.mp), 'f*', 'q', pdfMP(tile.mp), 'W* n', '1 J 1 j'];
+  (tile.layers || []).filter(l => l.visible).forEach(l => l.items.forEach(item => {
+    if (item.type === 'stroke') {
+      const pts = item.points.length === 1 ? [item.points[0], item.points[0]] : item.points;
+      ops.push(`${pdfColor(item.color)} RG ${fmtPt(item.width)} w`, pts.map((p, i) => `${fmtPt(p[0])} ${fmtPt(p[1])} ${i === 0 ? 'm' : 'l'}`).join('\n'), 'S');
+    } else {
+      ops.push(`${pdfColor(item.color)} rg`, pdfRings([flattenDraft(item.draft, 0.5).points]), 'f*');
+    }
+  }));
+  ops.push('Q', `0 0 0 RG ${fmtPt(lineWidth)} w`, pdfMP(tile.mp), 'S');
+  return ops.join('\n');
+};
+
+const cropMarks = (x: number, y: number, w: number, h: number): string => [[x, y, -1, -1], [x + w, y, 1, -1], [x, y + h, -1, 1], [x + w, y + h, 1, 1]].map(([cx, cy, sx, sy]) =>
+  `${fmtPt(cx + sx*CROP_MARK[0])} ${fmtPt(cy)} m ${fmtPt(cx + sx*CROP_MARK[1])} ${fmtPt(cy)} l ` +
+  `${fmtPt(cx)} ${fmtPt(cy + sy*CROP_MARK[0])} m ${fmtPt(cx)} ${fmtPt(cy + sy*CROP_MARK[1])} l`).join('\n') + '\nS';
+
+// Circle with cross hairs, centred in each page corner's margin
+const registrationMarks = (paper: PrintPaper): string => {
+  const r = 2.5 * PT_PER_MM, k = 0.5523 * r, c = PRINT_MARGIN / 2;
+  return [[c, c], [paper.w - c, c], [c, paper.h - c], [paper.w - c, paper.h - c]].map(([x, y]) =>
+    `${fmtPt(x + r)} ${fmtPt(y)} m ` +
+    `${fmtPt(x + r)} ${fmtPt(y + k)} ${fmtPt(x + k)} ${fmtPt(y + r)} ${fmtPt(x)} ${fmtPt(y + r)} c ` +
+    `${fmtPt(x - k)} ${fmtPt(y + r)} ${fmtPt(x - r)} ${fmtPt(y + k)} ${fmtPt(x - r)} ${fmtPt(y)} c ` +
+    `${fmtPt(x - r)} ${fmtPt(y - k)} ${fmtPt(x - k)} ${fmtPt(y - r)} ${fmtPt(x)} ${fmtPt(y - r)} c ` +
+    `${fmtPt(x + k)} ${fmtPt(y - r)} ${fmtPt(x + r)} ${fmtPt(y - k)} ${fmtPt(x + r)} ${fmtPt(y)} c S\n` +
+    `${fmtPt(x - 1.3*r)} ${fmtPt(y)} m ${fmtPt(x + 1.3*r)} ${fmtPt(y)} l ${fmtPt(x)} ${fmtPt(y - 1.3*r)} m ${fmtPt(x)} ${fmtPt(y + 1.3*r)} l S`).join('\n');
+};
+
+const caption = (text: string): string => `BT /F1 8 Tf 0 g ${fmtPt(PRINT_MARGIN)} ${fmtPt(PRINT_MARGIN + 3)} Td ${pdfText(text)} Tj ET`;
+
+// Copies per page as { cols, rows }; throws when not even one copy fits
+const printGrid = (w: number, h: number, paper: PrintPaper) => {
+  const cols = Math.floor((paper.w - 2*PRINT_MARGIN + PRINT_GAP) / (w + PRINT_GAP));
+  const rows = Math.floor((paper.h - 2*PRINT_MARGIN - PRINT_CAPTION + PRINT_GAP) / (h + PRINT_GAP));
+  if (cols < 1 || rows < 1) throw new Error('The tile does not fit on the page at this size; lower mm per unit');
+  return { cols, rows };
+};
+
+export const writeTileSheetPDF = (tile: PrintTile, pieces: PrintPiece[], mmPerUnit: number, options?: Partial<PrintOptions>): string => {
+  const opts = { ...PRINT_DEFAULTS, ...options };
+  const paper = PRINT_PAPERS.find(p => p.id === opts.paper) || PRINT_PAPERS[0];
+  const k = mmPerUnit * PT_PER_MM;
+  const [x0, y0, x1, y1] = mpBounds(tile.mp);
+  const w = (x1 - x0) * k, h = (y1 - y0) * k;
+  const { cols, rows } = printGrid(w, h, paper);
+  // Center the grid in the printable area
+  const left = (paper.w - cols*w - (cols - 1)*PRINT_GAP) / 2;
+  const top = paper.h - PRINT_MARGIN - (paper.h - 2*PRINT_MARGIN - PRINT_CAPTION - rows*h - (rows - 1)*PRINT_GAP) / 2;
+  const sheetCount = Math.max(1, Math.floor(opts.pages));
+  const size = `${(w / PT_PER_MM).toFixed(1)} x ${(h / PT_PER_MM).toFixed(1)} mm`;
+  const pages: string[] = [];
+  for (let page = 0; page < sheetCount; page++) {
+    const ops: string[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const px = left + col*(w + PRINT_GAP), py = top - (row + 1)*h - row*PRINT_GAP;
+        // y flips to PDF's upward axis; mirrored copies also flip x within their box
+        const mirrored = opts.mirror && (row + col) % 2 === 1;
+        const cm = mirrored ? [-k, 0, 0, -k, px + x1*k, py + y1*k] : [k, 0, 0, -k, px - x0*k, py + y1*k];
+        ops.push(`q ${cm.map(fmtPt).join(' ')} cm`, pdfTile(tile, 0.5 / k), 'Q');
+        if (opts.cropMarks) ops.push('0 G 0.25 w', cropMarks(px, py, w, h));
+      }
+    }
+    if (opts.registration) ops.push('0 G 0.25 w', registrationMarks(paper));
+    ops.push(caption(`${tile.name} - ${size} - ${cols * rows} per page - page ${page + 1} of ${sheetCount}`));
+    pages.push(ops.join('\n'));
+  }
+  if (opts.thumbnail && pieces.length > 0) {
+    const [ax0, ay0, ax1, ay1] = unionBounds(pieces.map(p => mpBounds(p.mp)));
+    const s = Math.min((paper.w - 2*PRINT_MARGIN) / (ax1 - ax0), (paper.h - 2*PRINT_MARGIN - PRINT_CAPTION) / (ay1 - ay0));
+    const ox = (paper.w - (ax1 - ax0)*s) / 2, oy = paper.h - PRINT_MARGIN - (paper.h - 2*PRINT_MARGIN - PRINT_CAPTION - (ay1 - ay0)*s) / 2;
+    const ops = [`q ${[s, 0, 0, -s, ox - ax0*s, oy + ay0*s].map(fmtPt).join(' ')} cm`, `0 0 0 RG ${fmtPt(0.3 / s)} w`];
+    pieces.forEach(p => ops.push(`${pdfColor(p.fill)} rg`, pdfMP(p.mp), 'b*'));
+    ops.push('Q', caption(`Assembly - ${pieces.length} tile${pieces.length === 1 ? '' : 's'}`));
+    pages.push(ops.join('\n'));
+  }
+  return buildPDF(pages, paper);
+};
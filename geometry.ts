@@ -0,0 +1,1336 @@
+// Headless geometry core of the Escher Tessellation Lab: MultiPolygon helpers, draft curves, base tiles,
+// the tile operations (cut & slide / turn / glide, union, subtract), the tessellation check and the
+// hyperbolic {p,q} tiles of the Circle Limit mode.
+// Nothing here touches React or the DOM, so the editor, the tile CLI (tile-cli.ts) and tests share it.
+
+import * as pc from "polygon-clipping"; // MultiPolygon boolean ops
+
+/******************** Types ********************/
+// A MultiPolygon follows polygon-clipping: Array<Polygon>; Polygon = Array<Ring>; Ring = Array<Point>.
+// The first ring of a polygon is its outer boundary, the rest are holes.
+export type Point = [number, number];
+export type Ring = Point[];
+export type Polygon = Ring[];
+export type MultiPolygon = Polygon[];
+export type Bounds = [number, number, number, number]; // [minX, minY, maxX, maxY]
+// Anything with x, y first: plain points and draft points alike
+export type XY = readonly number[] | readonly [number, number, ...unknown[]];
+
+// Draft points, see Curves
+export type DraftAttrs = { h?: Point; hi?: Point; arc?: number };
+export type DraftPoint = [number, number] | [number, number, DraftAttrs];
+export type Draft = DraftPoint[];
+
+export type Curve =
+  | { type: 'C'; ctrl: [Point, Point, Point, Point]; ts: number[] }
+  | { type: 'A'; center: Point; r: number; thetas: number[] };
+
+export type BaseKind = 'rect' | 'square' | 'hexagon' | 'triangle' | 'parallelogram';
+export type Slide = { id: string; label: string; title: string; v: Point; glide: boolean };
+export type BaseTile = { outline: Ring; slides: Slide[]; lattice: [Point, Point]; rotStep: number };
+export type Pivot = { id: string; label: string; p: Point; angles: number[] }; // angles: the turns cut & turn may use there
+
+// The document fields the tile operations read and write
+export interface TileState {
+  baseKind: BaseKind;
+  baseAngle: number; // parallelogram slant in degrees
+  tileW: number; // bounding box of the base tile
+  tileH: number;
+  tileMP: MultiPolygon;
+  curves: Curve[]; // true curves behind runs of tileMP vertices, used by the exports
+  curveTol: number; // max deviation when flattening curves for polygon-clipping
+  draftShape: Draft; // points for currently drawn polygon
+}
+
+// One edit of the tile, as applied by the designer's Apply button and replayed by the CLI.
+// Turn angles are degrees, positive = clockwise on screen; `slide`/`pivot` are ids from the base tile.
+export type TileOp =
+  | { type: 'cutSlide'; slide: string; draft: Draft }
+  | { type: 'cutTurn'; pivot: string; angle: number; draft: Draft }
+  | { type: 'cutGlide'; slide: string; draft: Draft }
+  | { type: 'union'; draft: Draft }
+  | { type: 'subtract'; draft: Draft };
+
+export type Decoration =
+  | { type: 'stroke'; points: Point[]; color: string; width: number } // freehand line
+  | { type: 'fill'; draft: Draft; color: string }; // closed shape in the draft format
+export type Layer = { id: string; name: string; visible: boolean; items: Decoration[] };
+export type Prototype = {
+  id: string; name: string; baseKind: BaseKind; baseAngle: number; tileW: number; tileH: number;
+  tileMP: MultiPolygon; curves: Curve[]; layers: Layer[]; tileFill: string;
+};
+export type Instance = { id: string; prototypeId: string; x: number; y: number; rot: number; flip: boolean; color?: string; pinned?: boolean };
+
+// Circle Limit mode, see Hyperbolic Tiles. Möbius maps of the unit disk z ↦ (a z + b) / (b̄ z + ā) with
+// |a|² − |b|² = 1 are stored as [Re a, Im a, Re b, Im b].
+export type Mobius = [number, number, number, number];
+export type HyperSlide = { id: string; label: string; edge: [Point, Point]; m: Mobius };
+export type HyperPivot = Pivot; // angles: the turns that map the {p,q} tiling onto itself
+export type HyperBase = { p: number; q: number; outline: Ring; slides: HyperSlide[]; pivots: HyperPivot[]; rotStep: number };
+export type HyperOp =
+  | { type: 'slide'; slide: string; draft: Draft }
+  | { type: 'turn'; pivot: string; angle: number; draft: Draft }
+  | { type: 'union'; draft: Draft }
+  | { type: 'subtract'; draft: Draft };
+export type HyperInstance = { id: string; m: Mobius; color?: string };
+export type HyperState = { p: number; q: number; tileMP: MultiPolygon; tileFill: string; instances: HyperInstance[] };
+
+export type FabSettings = {
+  mmPerUnit: number; kerf: number; feedRate: number; penUp: string; penDown: string;
+  stlMode: 'solid' | 'cutter'; height: number; wall: number;
+};
+
+export interface EditorState extends TileState {
+  drawSeg: 'L' | 'C' | 'A'; // segment type placed by the next draft click
+  layers: Layer[]; // decorations of the active tile, bottom first
+  activeLayer: string; // layer id that painting goes into
+  paintTool: 'brush' | 'shape'; // 'paint' mode: freehand strokes, or fill the draft on Apply
+  paintColor: string;
+  paintWidth: number;
+  mode: string; // 'select'|'draw'|'paint'|`cutSlide${slideId}`|'cutTurn'|'cutGlide'|'booleanAdd'|'booleanSub'
+  turnPivot: string; // pivot id used by 'cutTurn'
+  turnAngle: number; // degrees, positive = clockwise on screen
+  glideDir: string; // slide id used by 'cutGlide'
+  snap: boolean;
+  gridSize: number;
+  tileFill: string; // fill color of the tile in the designer and the assembly
+  prototypes: Prototype[]; // tile library; the top-level tile fields belong to the active one
+  activePrototype: string;
+  palette: string; // palette id used by "Auto Color"
+  fab: FabSettings; // mm per tile unit and machine settings for the fabrication exports
+  instances: Instance[];
+  hyper: HyperState; // Circle Limit tile and its disk assembly
+  hyperDraft: Draft; // straight draft of the Circle Limit designer, in Klein coordinates
+}
+
+/******************** Geometry Helpers ********************/
+export const rectMultiPolygon = (w: number, h: number): MultiPolygon => [ [ [ [0,0], [w,0], [w,h], [0,h] ] ] ];
+
+export const cloneMP = (mp: MultiPolygon): MultiPolygon => JSON.parse(JSON.stringify(mp));
+
+export const translateRing = (ring: Ring, dx: number, dy: number): Ring => ring.map(([x,y]) => [x+dx, y+dy]);
+export const translatePoly = (poly: Polygon, dx: number, dy: number): Polygon => poly.map(ring => translateRing(ring, dx, dy));
+export const translateMP = (mp: MultiPolygon, dx: number, dy: number): MultiPolygon => mp.map(poly => translatePoly(poly, dx, dy));
+
+// Rotation by `deg` degrees about (cx, cy). SVG y points down, so positive = clockwise on screen.
+export const rotatePoint = ([x,y]: XY, deg: number, cx: number, cy: number): Point => {
+  const a = deg * Math.PI / 180;
+  const c = Math.cos(a), s = Math.sin(a);
+  const dx = x - cx, dy = y - cy;
+  return [cx + dx*c - dy*s, cy + dx*s + dy*c];
+};
+export const rotateRing = (ring: Ring, deg: number, cx: number, cy: number): Ring => ring.map(p => rotatePoint(p, deg, cx, cy));
+export const rotatePoly = (poly: Polygon, deg: number, cx: number, cy: number): Polygon => poly.map(ring => rotateRing(ring, deg, cx, cy));
+export const rotateMP = (mp: MultiPolygon, deg: number, cx: number, cy: number): MultiPolygon => mp.map(poly => rotatePoly(poly, deg, cx, cy));
+
+// Mirror across the line through point c with direction d.
+export const reflectPoint = ([x,y]: XY, c: XY, d: XY): Point => {
+  const len = Math.hypot(d[0], d[1]) || 1;
+  const ux = d[0] / len, uy = d[1] / len;
+  const px = x - c[0], py = y - c[1];
+  const dot = px*ux + py*uy;
+  return [c[0] + 2*dot*ux - px, c[1] + 2*dot*uy - py];
+};
+export const reflectRing = (ring: Ring, c: XY, d: XY): Ring => ring.map(p => reflectPoint(p, c, d));
+export const reflectPoly = (poly: Polygon, c: XY, d: XY): Polygon => poly.map(ring => reflectRing(ring, c, d));
+export const reflectMP = (mp: MultiPolygon, c: XY, d: XY): MultiPolygon => mp.map(poly => reflectPoly(poly, c, d));
+
+// Even-odd point-in-polygon; holes are handled by counting every ring.
+export const pointInRing = ([x,y]: XY, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+export const pointInMP = (p: XY, mp: MultiPolygon): boolean => mp.some(poly => poly.reduce((acc, ring) => acc !== pointInRing(p, ring), false));
+
+export const withinBounds = (x: number, y: number, w: number, h: number): boolean => x >= 0 && x <= w && y >= 0 && y <= h;
+
+// Convert MultiPolygon to SVG path string
+export const ringToPath = (ring: Ring): string => ring.map((p, i) => `${i===0?"M":"L"}${p[0]} ${p[1]}`).join(" ") + " Z";
+export const polyToPath = (poly: Polygon): string => poly.map(ringToPath).join(" ");
+export const mpToPath = (mp: MultiPolygon): string => mp.map(polyToPath).join(" ");
+
+// Convert a simple polygon (array of [x,y]) into MultiPolygon structure expected by polygon-clipping
+export const simplePolygonToMP = (points: Ring): MultiPolygon => [ [ points ] ];
+
+// polygon-clipping throws on some degenerate input (near-coincident edges, slivers); the helpers below
+// rethrow with the operation named, so callers can show why an edit or a check did not happen
+export const clipError = (what: string, e: unknown): Error =>
+  new Error(`${what} failed in the polygon engine (${e instanceof Error ? e.message : String(e)}); try simplifying the draft`);
+
+// Intersect an MP with the tile bounds (keeps geometry inside); `bounds` is the base tile region
+export const intersectWithBounds = (mp: MultiPolygon, bounds: MultiPolygon): MultiPolygon => {
+  try {
+    return pc.intersection(mp, bounds) || [];
+  } catch (e) {
+    throw clipError('Clipping to the base tile', e);
+  }
+};
+
+// Boolean ops that always intersect back with bounds for the tile shape
+export const mpUnion = (a: MultiPolygon, b: MultiPolygon, bounds: MultiPolygon): MultiPolygon => {
+  let u;
+  try {
+    u = pc.union(a, b);
+  } catch (e) {
+    throw clipError('Union', e);
+  }
+  return intersectWithBounds(u, bounds);
+};
+
+export const mpDiff = (a: MultiPolygon, b: MultiPolygon, bounds: MultiPolygon): MultiPolygon => {
+  let d;
+  try {
+    d = pc.difference(a, b);
+  } catch (e) {
+    throw clipError('Subtraction', e);
+  }
+  return intersectWithBounds(d, bounds);
+};
+
+export const mpIntersect = (a: MultiPolygon, b: MultiPolygon, bounds: MultiPolygon): MultiPolygon => {
+  let i;
+  try {
+    i = pc.intersection(a, b);
+  } catch (e) {
+    throw clipError('Intersection', e);
+  }
+  return intersectWithBounds(i, bounds);
+};
+
+// Simple point helpers
+export const distance = (a: XY, b: XY): number => Math.hypot(a[0]-b[0], a[1]-b[1]);
+
+// Closest point to p on segment a–b
+export const nearestOnSegment = (p: XY, a: XY, b: XY): Point => {
+  const dx = b[0]-a[0], dy = b[1]-a[1];
+  const len2 = dx*dx + dy*dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p[0]-a[0])*dx + (p[1]-a[1])*dy) / len2));
+  return [a[0] + t*dx, a[1] + t*dy];
+};
+
+// Axis-aligned bounds [minX, minY, maxX, maxY] of an MP
+export const mpBounds = (mp: MultiPolygon): Bounds => {
+  const pts = mp.flat(1).flat(1);
+  if (pts.length === 0) return [0, 0, 0, 0];
+  const xs = pts.map(p => p[0]), ys = pts.map(p => p[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+export const unionBounds = (boxes: Bounds[]): Bounds =>
+  boxes.reduce((a, b) => [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])]);
+
+/******************** Vertex Editing Helpers ********************/
+// polygon-clipping returns closed rings (last point repeats the first); editing works on open rings.
+export const VERTEX_EPS = 0.01;
+export const samePoint = (a: XY, b: XY): boolean => distance(a, b) < VERTEX_EPS;
+export const openRing = (ring: Ring): Ring => ring.length > 1 && samePoint(ring[0], ring[ring.length-1]) ? ring.slice(0, -1) : ring;
+export const openMP = (mp: MultiPolygon): MultiPolygon => mp.map(poly => poly.map(openRing));
+
+// Unique vertex positions of an MP
+export const mpVertices = (mp: MultiPolygon): Point[] => {
+  const out: Point[] = [];
+  openMP(mp).forEach(poly => poly.forEach(ring => ring.forEach(p => {
+    if (!out.some(q => samePoint(p, q))) out.push(p);
+  })));
+  return out;
+};
+
+// Vertices linked to `p` through the base's edge-pair vectors: moving one moves all by the same offset
+export const linkedVertices = (mp: MultiPolygon, p: Point, vectors: Point[]): Point[] => {
+  const verts = mpVertices(mp);
+  const group = [p];
+  for (let i = 0; i < group.length; i++) {
+    vectors.forEach(v => {
+      const twin = verts.find(q => samePoint(q, [group[i][0] + v[0], group[i][1] + v[1]]));
+      if (twin && !group.some(g => samePoint(g, twin))) group.push(twin);
+    });
+  }
+  return group;
+};
+
+export const moveVertices = (mp: MultiPolygon, positions: Point[], dx: number, dy: number): MultiPolygon =>
+  mp.map(poly => poly.map(ring => ring.map((p): Point => positions.some(q => samePoint(p, q)) ? [p[0]+dx, p[1]+dy] : p)));
+
+// Remove the given vertices; rings that would drop below a triangle are left untouched
+export const deleteVertices = (mp: MultiPolygon, positions: Point[]): MultiPolygon => openMP(mp).map(poly => poly.map(ring => {
+  const kept = ring.filter(p => !positions.some(q => samePoint(p, q)));
+  return kept.length >= 3 ? kept : ring;
+}));
+
+// Split every edge that passes through p by inserting p as a new vertex
+export const insertVertex = (mp: MultiPolygon, p: Point): MultiPolygon => openMP(mp).map(poly => poly.map(ring => {
+  const out: Ring = [];
+  ring.forEach((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    out.push(a);
+    if (!samePoint(a, p) && !samePoint(b, p) && samePoint(nearestOnSegment(p, a, b), p)) out.push(p);
+  });
+  return out;
+}));
+
+// Insert p and its twins on the partner edges
+export const insertLinkedVertex = (mp: MultiPolygon, p: Point, vectors: Point[]): MultiPolygon => {
+  const group = [p];
+  for (let i = 0; i < group.length; i++) {
+    vectors.forEach(v => {
+      const q: Point = [group[i][0] + v[0], group[i][1] + v[1]];
+      if (group.some(g => samePoint(g, q))) return;
+      const onEdge = nearestOnMP(mp, q);
+      if (onEdge && samePoint(onEdge, q)) group.push(q);
+    });
+  }
+  return group.reduce((acc, q) => insertVertex(acc, q), mp);
+};
+
+// Closest point on any edge of the MP
+export const nearestOnMP = (mp: MultiPolygon, p: XY): Point | null => {
+  let best: Point | null = null, bestD = Infinity;
+  openMP(mp).forEach(poly => poly.forEach(ring => ring.forEach((a, i) => {
+    const q = nearestOnSegment(p, a, ring[(i + 1) % ring.length]);
+    const d = distance(p, q);
+    if (d < bestD) { bestD = d; best = q; }
+  })));
+  return best;
+};
+
+/******************** Object Snaps ********************/
+// Targets a draft point snaps to, tried in this order, each within `radius` of the cursor:
+//   vertex   – a vertex of the tile
+//   twin     – where a draft point lying on the tile outline lands on the partner edge (± a slide vector),
+//              so a cut can end exactly opposite where it started; `from` is that draft point
+//   midpoint – the middle of a tile edge
+//   edge     – the nearest point on a tile edge
+export type SnapKind = 'vertex' | 'twin' | 'midpoint' | 'edge';
+export type ObjectSnap = { kind: SnapKind; p: Point; from?: Point };
+export const OBJECT_SNAP_RADIUS = 8;
+
+const nearestWithin = (p: XY, candidates: Point[], radius: number): Point | null => {
+  let best: Point | null = null, bestD = radius;
+  for (const q of candidates) {
+    const d = distance(p, q);
+    if (d < bestD) { bestD = d; best = q; }
+  }
+  return best;
+};
+
+const edgeMidpoints = (mp: MultiPolygon): Point[] => openMP(mp).flatMap(poly => poly.flatMap(ring => ring.map((a, i): Point => {
+  const b = ring[(i + 1) % ring.length];
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+})));
+
+export const objectSnap = (p: XY, mp: MultiPolygon, vectors: Point[], draft: Draft, radius = OBJECT_SNAP_RADIUS): ObjectSnap | null => {
+  const vertex = nearestWithin(p, mpVertices(mp), radius);
+  if (vertex) return { kind: 'vertex', p: vertex };
+  let twin: ObjectSnap | null = null, twinD = radius;
+  for (const d of draft) {
+    const from: Point = [d[0], d[1]];
+    const on = nearestOnMP(mp, from);
+    if (!on || !samePoint(on, from)) continue;
+    for (const v of vectors) {
+      const t: Point = [from[0] + v[0], from[1] + v[1]];
+      if (distance(p, t) < twinD) { twinD = distance(p, t); twin = { kind: 'twin', p: t, from }; }
+    }
+  }
+  if (twin) return twin;
+  const mid = nearestWithin(p, edgeMidpoints(mp), radius);
+  if (mid) return { kind: 'midpoint', p: mid };
+  const edge = nearestOnMP(mp, p);
+  return edge && distance(p, edge) < radius ? { kind: 'edge', p: edge } : null;
+};
+
+/******************** Curves ********************/
+// Draft points are [x, y] or [x, y, extra], where extra shapes the segment:
+//   { h: [hx, hy] } – Bézier anchor: out-handle h, in-handle mirrored through the point
+//   { hi: [hx, hy] } – explicit in-handle (imported paths), overriding the mirrored one;
+//                     hi at the point itself means the arriving segment is straight
+//   { arc: s }      – the segment arriving at this point is a circular arc whose midpoint
+//                     bulges s units to the left of the chord (negative = right)
+// Curves are flattened for polygon-clipping, and also kept in a registry (EditorState.curves) so
+// exports can write true C/A commands for any run of tile vertices that still lies on a curve:
+//   { type: 'C', ctrl: [p0, c1, c2, p1], ts: number[] }        – cubic Bézier sampled at ts
+//   { type: 'A', center: [x, y], r: number, thetas: number[] }  – circular arc sampled at thetas
+
+const attrsOf = (pt: DraftPoint): DraftAttrs => pt[2] || {};
+
+export const mirrorThrough = (h: XY, p: XY): Point => [2*p[0] - h[0], 2*p[1] - h[1]];
+export const outHandle = (pt: DraftPoint): Point | null => {
+  const h = attrsOf(pt).h;
+  return h && distance(h, pt) > 1e-6 ? h : null;
+};
+export const inHandle = (pt: DraftPoint): Point | null => {
+  const { h, hi } = attrsOf(pt);
+  if (hi) return distance(hi, pt) > 1e-6 ? hi : null;
+  return h && outHandle(pt) ? mirrorThrough(h, pt) : null;
+};
+export const hasHandle = (pt: DraftPoint): boolean => !!(outHandle(pt) || inHandle(pt));
+
+export const cubicAt = ([p0, c1, c2, p1]: Point[], t: number): Point => {
+  const u = 1 - t;
+  const a = u*u*u, b = 3*u*u*t, c = 3*u*t*t, d = t*t*t;
+  return [a*p0[0] + b*c1[0] + c*c2[0] + d*p1[0], a*p0[1] + b*c1[1] + c*c2[1] + d*p1[1]];
+};
+
+type Cubic = [Point, Point, Point, Point];
+
+// Control points of the part of a cubic between t0 and t1 (reversed when t0 > t1)
+export const cubicPart = (ctrl: Cubic, t0: number, t1: number): Cubic => {
+  if (t0 > t1) return cubicPart(ctrl, t1, t0).reverse() as Cubic;
+  const lerp = (a: Point, b: Point, t: number): Point => [a[0] + (b[0]-a[0])*t, a[1] + (b[1]-a[1])*t];
+  const split = ([p0, c1, c2, p1]: Cubic, t: number): [Cubic, Cubic] => {
+    const a = lerp(p0, c1, t), b = lerp(c1, c2, t), c = lerp(c2, p1, t);
+    const d = lerp(a, b, t), e = lerp(b, c, t), f = lerp(d, e, t);
+    return [[p0, a, d, f], [f, e, c, p1]];
+  };
+  const right = t0 > 0 ? split(ctrl, t0)[1] : ctrl;
+  return t1 < 1 ? split(right, (t1 - t0) / (1 - t0))[0] : right;
+};
+
+// Curve for the draft segment a → b, or null for a straight segment
+export const segmentCurve = (a: DraftPoint, b: DraftPoint, tol: number): Curve | null => {
+  const s = attrsOf(b).arc;
+  const chord = distance(a, b);
+  if (s && Math.abs(s) > 1e-6 && chord > 1e-6) {
+    const half = chord / 2;
+    const r = (half*half + s*s) / (2*Math.abs(s));
+    const nx = -(b[1] - a[1]) / chord, ny = (b[0] - a[0]) / chord; // left normal on screen
+    const mid = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const k = s - Math.sign(s) * r;
+    const center: Point = [mid[0] + nx*k, mid[1] + ny*k];
+    const top: Point = [mid[0] + nx*s, mid[1] + ny*s];
+    const ang = (p: XY) => Math.atan2(p[1] - center[1], p[0] - center[0]);
+    const ccw = (from: number, to: number) => ((to - from) % (2*Math.PI) + 2*Math.PI) % (2*Math.PI);
+    const ta = ang(a), toB = ccw(ta, ang(b)), toTop = ccw(ta, ang(top));
+    const sweep = toTop < toB ? toB : toB - 2*Math.PI; // go the way that passes the bulge
+    const step = 2 * Math.acos(Math.max(-1, 1 - tol / r));
+    const n = Math.max(2, Math.min(256, Math.ceil(Math.abs(sweep) / step)));
+    return { type: 'A', center, r, thetas: Array.from({ length: n + 1 }, (_, i) => ta + sweep * i / n) };
+  }
+  const c1 = outHandle(a), c2 = inHandle(b);
+  if (c1 || c2) {
+    const ctrl: Cubic = [[a[0], a[1]], c1 || [a[0], a[1]], c2 || [b[0], b[1]], [b[0], b[1]]];
+    // Wang's formula: segments needed to stay within tol of the curve
+    const dd = Math.max(
+      Math.hypot(ctrl[0][0] - 2*ctrl[1][0] + ctrl[2][0], ctrl[0][1] - 2*ctrl[1][1] + ctrl[2][1]),
+      Math.hypot(ctrl[1][0] - 2*ctrl[2][0] + ctrl[3][0], ctrl[1][1] - 2*ctrl[2][1] + ctrl[3][1]));
+    const n = Math.max(2, Math.min(256, Math.ceil(Math.sqrt(0.75 * dd / tol))));
+    return { type: 'C', ctrl, ts: Array.from({ length: n + 1 }, (_, i) => i / n) };
+  }
+  return null;
+};
+
+export const curvePoints = (curve: Curve): Point[] => curve.type === 'C'
+  ? curve.ts.map(t => cubicAt(curve.ctrl, t))
+  : curve.thetas.map((th): Point => [curve.center[0] + curve.r*Math.cos(th), curve.center[1] + curve.r*Math.sin(th)]);
+
+// Flatten a draft into a closed ring of plain points plus the curves it contains
+export const flattenDraft = (draft: Draft, tol: number): { points: Ring; curves: Curve[] } => {
+  const first = draft[0];
+  const closed = draft.length > 1 && distance(first, draft[draft.length-1]) <= 1e-6;
+  const h = outHandle(first);
+  const pts: Draft = closed ? draft : [...draft, h ? [first[0], first[1], { h }] : [first[0], first[1]]];
+  const points: Ring = [[first[0], first[1]]];
+  const curves: Curve[] = [];
+  for (let i = 1; i < pts.length; i++) {
+    const curve = segmentCurve(pts[i-1], pts[i], tol);
+    if (curve) {
+      curves.push(curve);
+      points.push(...curvePoints(curve).slice(1));
+    } else {
+      points.push([pts[i][0], pts[i][1]]);
+    }
+  }
+  return { points, curves };
+};
+
+// Move a draft point, carrying its handles along (arc bulges are relative and stay)
+export const moveDraftPoint = (pt: DraftPoint, x: number, y: number): DraftPoint => {
+  const dx = x - pt[0], dy = y - pt[1];
+  const { h, hi, ...rest } = attrsOf(pt);
+  const attrs: DraftAttrs = { ...rest };
+  if (h) attrs.h = [h[0] + dx, h[1] + dy];
+  if (hi) attrs.hi = [hi[0] + dx, hi[1] + dy];
+  return Object.keys(attrs).length > 0 ? [x, y, attrs] : [x, y];
+};
+
+// Close an open draft by repeating its first point (with its handle, so a closing curve survives)
+export const closeIfNeeded = (draft: Draft): Draft =>
+  draft.length >= 3 && distance(draft[0], draft[draft.length-1]) > 1e-6 ? [...draft, draft[0]] : draft;
+
+// SVG path of an open draft, with its true curves
+export const draftToPath = (draft: Draft): string => draft.map((b, i) => {
+  if (i === 0) return `M${b[0]} ${b[1]}`;
+  const curve = segmentCurve(draft[i-1], b, 1);
+  return curve ? curveCommand(curve, 0, curve.type === 'C' ? curve.ts.length - 1 : curve.thetas.length - 1) : `L${b[0]} ${b[1]}`;
+}).join(' ');
+
+// Apply a point map to a curve; `mirrored` for reflections, which reverse the arc direction
+export const transformCurve = (curve: Curve, fn: (p: Point) => Point, mirrored = false): Curve => {
+  if (curve.type === 'C') return { ...curve, ctrl: curve.ctrl.map(fn) as Cubic };
+  const center = fn(curve.center);
+  const p0 = fn(curvePoints({ ...curve, thetas: [curve.thetas[0]] })[0]);
+  const t0 = Math.atan2(p0[1] - center[1], p0[0] - center[0]);
+  const sign = mirrored ? -1 : 1;
+  return { ...curve, center, thetas: curve.thetas.map(th => t0 + sign * (th - curve.thetas[0])) };
+};
+export const translateCurves = (curves: Curve[], dx: number, dy: number): Curve[] => curves.map(c => transformCurve(c, ([x, y]) => [x + dx, y + dy]));
+export const rotateCurves = (curves: Curve[], deg: number, cx: number, cy: number): Curve[] => curves.map(c => transformCurve(c, p => rotatePoint(p, deg, cx, cy)));
+export const reflectCurves = (curves: Curve[], c0: XY, d: XY): Curve[] => curves.map(c => transformCurve(c, p => reflectPoint(p, c0, d), true));
+
+// Path command drawing a curve from sample i to sample j (either direction)
+export const curveCommand = (curve: Curve, i: number, j: number): string => {
+  if (curve.type === 'C') {
+    const [, c1, c2, p1] = cubicPart(curve.ctrl, curve.ts[i], curve.ts[j]);
+    return `C${c1[0]} ${c1[1]} ${c2[0]} ${c2[1]} ${p1[0]} ${p1[1]}`;
+  }
+  const sweep = curve.thetas[j] - curve.thetas[i];
+  const [x, y] = curvePoints({ ...curve, thetas: [curve.thetas[j]] })[0];
+  return `A${curve.r} ${curve.r} 0 ${Math.abs(sweep) > Math.PI ? 1 : 0} ${sweep > 0 ? 1 : 0} ${x} ${y}`;
+};
+
+// Like mpToPath, but runs of vertices lying on a registered curve are written as C/A commands
+export const mpToCurvePath = (mp: MultiPolygon, curves: Curve[]): string => {
+  if (!curves || curves.length === 0) return mpToPath(mp);
+  const samples = curves.map(curvePoints);
+  const matches = (p: Point) => {
+    const out: [number, number][] = [];
+    samples.forEach((pts, ci) => pts.forEach((q, si) => { if (samePoint(p, q)) out.push([ci, si]); }));
+    return out;
+  };
+  const ringPath = (ring: Ring) => {
+    const open = openRing(ring);
+    const verts = [...open, open[0]];
+    const m = verts.map(matches);
+    const parts = [`M${verts[0][0]} ${verts[0][1]}`];
+    let k = 0;
+    while (k < verts.length - 1) {
+      // longest run k..end stepping through consecutive samples of one curve
+      let best: { ci: number; si: number; dir: number; end: number } | null = null;
+      m[k].forEach(([ci, si]) => [1, -1].forEach(dir => {
+        let end = k;
+        while (end + 1 < verts.length && m[end + 1].some(([cj, sj]) => cj === ci && sj === si + dir * (end + 1 - k))) end++;
+        if (end > k && (!best || end > best.end)) best = { ci, si, dir, end };
+      }));
+      const run = best as { ci: number; si: number; dir: number; end: number } | null;
+      if (run) {
+        parts.push(curveCommand(curves[run.ci], run.si, run.si + run.dir * (run.end - k)));
+        k = run.end;
+      } else {
+        k++;
+        parts.push(`L${verts[k][0]} ${verts[k][1]}`);
+      }
+    }
+    return parts.join(' ') + ' Z';
+  };
+  return mp.map(poly => poly.map(ringPath).join(' ')).join(' ');
+};
+
+// Drop registry curves that no longer contribute at least one edge to the tile
+export const pruneCurves = (curves: Curve[], mp: MultiPolygon): Curve[] => {
+  const verts = mpVertices(mp);
+  return curves.filter(c => curvePoints(c).filter(p => verts.some(v => samePoint(p, v))).length >= 2);
+};
+
+/******************** Base Tiles ********************/
+// Every base tile lives in the tileW × tileH box of the editor and describes:
+//   outline – the clipping region for all boolean ops (a single ring)
+//   slides  – edge pairs for cut & slide; `v` maps the source edge onto its partner, and
+//             `glide` marks pairs where mirroring across the centre axis along `v` is also valid
+//   lattice – two basis vectors of the translation lattice used for assembly snapping
+//   rotStep – rotation (degrees) that maps the base onto itself, used for snapped instance rotation
+// Cut & turn pivots are derived from the outline (corners and edge midpoints).
+const SQRT3_2 = Math.sqrt(3) / 2;
+
+export const BASE_KINDS: { id: BaseKind; label: string }[] = [
+  { id: 'rect', label: 'Rectangle' },
+  { id: 'square', label: 'Square' },
+  { id: 'hexagon', label: 'Hexagon' },
+  { id: 'triangle', label: 'Triangle' },
+  { id: 'parallelogram', label: 'Parallelogram' },
+];
+
+type SlideName = { id: string; label: string; title: string };
+const SLIDE_LR = { id: 'LR', label: 'Cut → (L→R)', title: 'Cut from left, slide to right' };
+const SLIDE_RL = { id: 'RL', label: 'Cut ← (R→L)', title: 'Cut from right, slide to left' };
+const SLIDE_TB = { id: 'TB', label: 'Cut ↓ (T→B)', title: 'Cut from top, slide to bottom' };
+const SLIDE_BT = { id: 'BT', label: 'Cut ↑ (B→T)', title: 'Cut from bottom, slide to top' };
+const SLIDE_ULLR = { id: 'ULLR', label: 'Cut ↘ (UL→LR)', title: 'Cut from upper-left, slide to lower-right' };
+const SLIDE_LRUL = { id: 'LRUL', label: 'Cut ↖ (LR→UL)', title: 'Cut from lower-right, slide to upper-left' };
+const SLIDE_LLUR = { id: 'LLUR', label: 'Cut ↗ (LL→UR)', title: 'Cut from lower-left, slide to upper-right' };
+const SLIDE_URLL = { id: 'URLL', label: 'Cut ↙ (UR→LL)', title: 'Cut from upper-right, slide to lower-left' };
+
+const slidePair = (fwd: SlideName, back: SlideName, v: Point, glide: boolean): Slide[] => [
+  { ...fwd, v, glide },
+  { ...back, v: [-v[0], -v[1]], glide },
+];
+
+// Horizontal offset of the parallelogram's top edge relative to its bottom edge
+const parallelogramOffset = (h: number, angle: number): number => h / Math.tan(angle * Math.PI / 180);
+
+// Force the box to the proportions the base kind needs
+export const normalizeTileSize = (kind: BaseKind, w: number, h: number, angle: number): [number, number] => {
+  if (kind === 'square') return [w, w];
+  if (kind === 'hexagon' || kind === 'triangle') return [w, Math.round(w * SQRT3_2 * 100) / 100];
+  if (kind === 'parallelogram') return [Math.max(w, Math.abs(parallelogramOffset(h, angle)) + 40), h];
+  return [w, h];
+};
+
+export const baseTile = (kind: BaseKind, w: number, h: number, angle: number): BaseTile => {
+  if (kind === 'hexagon') {
+    // Flat-topped regular hexagon spanning the full box
+    return {
+      outline: [[w/4,0], [3*w/4,0], [w,h/2], [3*w/4,h], [w/4,h], [0,h/2]],
+      slides: [
+        ...slidePair(SLIDE_TB, SLIDE_BT, [0, h], true),
+        ...slidePair(SLIDE_ULLR, SLIDE_LRUL, [3*w/4, h/2], true),
+        ...slidePair(SLIDE_LLUR, SLIDE_URLL, [3*w/4, -h/2], true),
+      ],
+      lattice: [[3*w/4, h/2], [0, h]],
+      rotStep: 60,
+    };
+  }
+  if (kind === 'triangle') {
+    // Equilateral triangles only tile with rotated copies, so there are no slide pairs
+    return {
+      outline: [[w/2,0], [w,h], [0,h]],
+      slides: [],
+      lattice: [[w, 0], [w/2, h]],
+      rotStep: 60,
+    };
+  }
+  if (kind === 'parallelogram') {
+    const o = parallelogramOffset(h, angle);
+    const top = Math.max(o, 0), bottom = Math.max(-o, 0);
+    const a = w - Math.abs(o);
+    const side: Point = [bottom - top, h];
+    return {
+      outline: [[top,0], [top+a,0], [bottom+a,h], [bottom,h]],
+      slides: [
+        ...slidePair(SLIDE_LR, SLIDE_RL, [a, 0], false),
+        ...slidePair(SLIDE_TB, SLIDE_BT, side, false),
+      ],
+      lattice: [[a, 0], side],
+      rotStep: 180,
+    };
+  }
+  // 'rect' and 'square'
+  return {
+    outline: [[0,0], [w,0], [w,h], [0,h]],
+    slides: [
+      ...slidePair(SLIDE_LR, SLIDE_RL, [w, 0], true),
+      ...slidePair(SLIDE_TB, SLIDE_BT, [0, h], true),
+    ],
+    lattice: [[w, 0], [0, h]],
+    rotStep: kind === 'square' ? 90 : 180,
+  };
+};
+
+export const baseOf = (s: Pick<TileState, 'baseKind' | 'tileW' | 'tileH' | 'baseAngle'>): BaseTile => baseTile(s.baseKind, s.tileW, s.tileH, s.baseAngle);
+export const baseRegion = (base: BaseTile): MultiPolygon => [ [ base.outline ] ];
+
+// Drops the float noise rotations leave behind (-1.2e-14 for 0), so turned copies meet their neighbours exactly
+const roundMP = (mp: MultiPolygon): MultiPolygon =>
+  mp.map(poly => poly.map(ring => ring.map(([x, y]): Point => [+x.toFixed(9) || 0, +y.toFixed(9) || 0])));
+
+// The tiling of a base: the copies of a tile made by each cell transform, moved by the lattice. Every base but
+// the triangle tiles by translation alone; triangles pair with a copy turned 180° about an edge midpoint.
+export const baseCells = (base: BaseTile): Array<(mp: MultiPolygon) => MultiPolygon> => {
+  if (base.slides.length > 0) return [mp => mp];
+  const m0 = pivotPoints(base.outline).find(pv => pv.id === 'm0') as Pivot;
+  return [mp => mp, mp => roundMP(rotateMP(mp, 180, m0.p[0], m0.p[1]))];
+};
+
+// Lattice translations i*a + j*b for |i|, |j| <= n
+const latticeOffsets = ([a, b]: [Point, Point], n: number): Point[] => {
+  const out: Point[] = [];
+  for (let i = -n; i <= n; i++) for (let j = -n; j <= n; j++) out.push([i*a[0] + j*b[0], i*a[1] + j*b[1]]);
+  return out;
+};
+
+// Working area: the base plus every cell of its tiling that touches it, across an edge or at a corner.
+// Boolean results are clipped to this so pieces slid, turned, glided or dragged out of the base survive.
+// The cells are lattice translations rounded like the turned ones, so shared edges coincide exactly and
+// polygon-clipping merges them without slivers.
+export const baseWorkRegion = (base: BaseTile): MultiPolygon => {
+  const region = roundMP(baseRegion(base));
+  const touches = (cell: MultiPolygon) => cell[0][0].some(p => base.outline.some(q => samePoint(p, q)));
+  const neighbours = baseCells(base).flatMap((cell, ci) => latticeOffsets(base.lattice, 2)
+    .filter(([dx, dy]) => ci > 0 || dx !== 0 || dy !== 0)
+    .map(([dx, dy]) => roundMP(translateMP(cell(region), dx, dy)))
+    .filter(touches));
+  try {
+    return pc.union(region, ...neighbours);
+  } catch (e) {
+    throw clipError('Building the working area around the base', e);
+  }
+};
+// Vertex average of a ring, the centre of the regular and symmetric base outlines
+const ringCenter = (ring: Ring): Point => ring.reduce(([cx, cy]: Point, [x, y]): Point => [cx + x/ring.length, cy + y/ring.length], [0, 0]);
+export const baseCenter = (base: BaseTile): Point => ringCenter(base.outline);
+
+// Equal sides and corners, within 0.1% since hexagon and triangle heights are rounded to 0.01
+const isRegular = (outline: Ring): boolean => {
+  const n = outline.length;
+  const side = (i: number) => distance(outline[i], outline[(i + 1) % n]);
+  const corner = (i: number) => distance(outline[(i + n - 1) % n], outline[(i + 1) % n]);
+  return outline.every((_, i) => Math.abs(side(i) - side(0)) < 1e-3 * side(0) && Math.abs(corner(i) - corner(0)) < 1e-3 * corner(0));
+};
+
+// Pivots for cut & turn: the base corners and edge midpoints, each with the turns that keep the tile tiling.
+// Turning by the corner angle about a corner of a regular base (triangle, square, hexagon) maps one incident
+// edge onto the other (p6/p4/p3); 180° about an edge midpoint of a triangle or four-sided base swaps the two
+// halves of that edge (p2). Rectangle and parallelogram corners and hexagon midpoints have no such turn.
+export const pivotPoints = (outline: Ring): Pivot[] => {
+  const n = outline.length;
+  const cornerTurn = (n === 3 || n === 4 || n === 6) && isRegular(outline) ? 180 - 360 / n : 0;
+  return [
+    ...outline.map((p, i): Pivot => ({ id: `c${i}`, label: `Corner ${i+1}`, p, angles: cornerTurn ? [cornerTurn, -cornerTurn] : [] })),
+    ...outline.map((p, i): Pivot => {
+      const q = outline[(i + 1) % n];
+      return { id: `m${i}`, label: `Mid ${i+1}`, p: [(p[0]+q[0])/2, (p[1]+q[1])/2], angles: n <= 4 ? [180] : [] };
+    }),
+  ];
+};
+
+// Nearest point of the lattice spanned by [a, b]
+export const snapToLattice = (p: XY, lattice: [Point, Point]): Point => {
+  const [x, y] = p, [a, b] = lattice;
+  const det = a[0]*b[1] - a[1]*b[0];
+  if (Math.abs(det) < 1e-9) return [x, y];
+  const i = Math.round((x*b[1] - y*b[0]) / det);
+  const j = Math.round((a[0]*y - a[1]*x) / det);
+  return [i*a[0] + j*b[0], i*a[1] + j*b[1]];
+};
+
+// Nearest offset p for a tile placed like an assembly instance (mirrored about the vertical axis through its
+// centroid c when flipped, turned by `rot` about c, then moved by p) at which it lands on a cell of the base
+// tiling, lattice or turned (baseCells). Such offsets form the lattice shifted by
+//   L(c − g) − (c − g) + t,
+// with L the turn and flip, g the base centre and t the step from the turned base to the cell it matches.
+// A turn or flip that maps the base onto no cell (e.g. 45° on a square) keeps plain lattice snapping.
+export const snapToPlacement = (p: XY, base: BaseTile, rot: number, flip: boolean, c: XY): Point => {
+  const g = baseCenter(base);
+  const turn = (q: XY): Point => rotatePoint(flip ? [2*g[0] - q[0], q[1]] : q, rot, g[0], g[1]);
+  const turned = base.outline.map(turn);
+  for (const cell of baseCells(base)) {
+    const outline = cell(baseRegion(base))[0][0];
+    const center = ringCenter(outline);
+    const t: Point = [center[0] - g[0], center[1] - g[1]];
+    if (!turned.every(q => outline.some(o => samePoint([q[0] + t[0], q[1] + t[1]], o)))) continue;
+    const moved = turn(c); // L(c − g) + g
+    const offset: Point = [moved[0] - c[0] + t[0], moved[1] - c[1] + t[1]];
+    const snapped = snapToLattice([p[0] - offset[0], p[1] - offset[1]], base.lattice);
+    return [snapped[0] + offset[0], snapped[1] + offset[1]];
+  }
+  return snapToLattice(p, base.lattice);
+};
+
+/******************** Draft Validation ********************/
+// Checks a draft before it is applied; applyTileOp refuses drafts with errors.
+//   error   – tooFew, selfIntersection, zeroArea, unknownSlide, badTurn, outsideDisk: the op cannot give a sensible tile
+//   warning – duplicate, collinear: redundant points, removed by repairDraft()
+//             missesEdge: a slide or glide cut that does not reach the edge it moves from
+//             leavesWorkArea: the moved piece lands partly outside baseWorkRegion, which clips it off
+// `points` marks where the problem is, for highlighting in the editor.
+export type DraftIssueCode = 'tooFew' | 'selfIntersection' | 'zeroArea' | 'unknownSlide' | 'badTurn' | 'outsideDisk' | 'duplicate' | 'collinear' | 'missesEdge' | 'leavesWorkArea';
+export type DraftIssue = { level: 'error' | 'warning'; code: DraftIssueCode; message: string; points: Point[] };
+export const COLLINEAR_EPS = 0.25; // max distance of a straight-run point from its neighbours' chord
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Crossing or touching point of segments a–b and c–d (collinear overlaps included), or null
+const segmentIntersection = (a: Point, b: Point, c: Point, d: Point): Point | null => {
+  const r = [b[0] - a[0], b[1] - a[1]], q = [d[0] - c[0], d[1] - c[1]], ac = [c[0] - a[0], c[1] - a[1]];
+  const den = r[0]*q[1] - r[1]*q[0];
+  const len2 = r[0]*r[0] + r[1]*r[1];
+  if (Math.abs(den) < 1e-12 * Math.max(1, len2)) {
+    if (len2 === 0 || Math.abs(ac[0]*r[1] - ac[1]*r[0]) / Math.sqrt(len2) > 1e-9) return null;
+    const t0 = (ac[0]*r[0] + ac[1]*r[1]) / len2, t1 = ((d[0] - a[0])*r[0] + (d[1] - a[1])*r[1]) / len2;
+    const lo = Math.max(0, Math.min(t0, t1)), hi = Math.min(1, Math.max(t0, t1));
+    return lo <= hi ? [a[0] + lo*r[0], a[1] + lo*r[1]] : null;
+  }
+  const t = (ac[0]*q[1] - ac[1]*q[0]) / den, u = (ac[0]*r[1] - ac[1]*r[0]) / den;
+  if (t < -1e-9 || t > 1 + 1e-9 || u < -1e-9 || u > 1 + 1e-9) return null;
+  return [a[0] + t*r[0], a[1] + t*r[1]];
+};
+
+// Points where non-adjacent edges of a closed ring (last point = first) cross or touch
+const ringSelfIntersections = (ring: Ring): Point[] => {
+  const pts = ring.filter((p, i) => i === 0 || !samePoint(p, ring[i - 1]));
+  const n = pts.length - 1; // edges
+  const hits: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // neighbours through the closing point
+      const hit = segmentIntersection(pts[i], pts[i + 1], pts[j], pts[j + 1]);
+      if (hit && !hits.some(h => samePoint(h, hit))) hits.push(hit);
+    }
+  }
+  return hits;
+};
+
+export const isClosedDraft = (draft: Draft) => draft.length > 1 && distance(draft[0], draft[draft.length - 1]) <= 1e-6;
+
+// Indices of points that only repeat the previous one
+const duplicateIndices = (draft: Draft): number[] => draft.map((p, i) => {
+  if (i > 0 && samePoint(p, draft[i - 1])) return i;
+  // an open draft ending next to its start would get a zero-length closing edge
+  if (i === draft.length - 1 && i > 2 && !isClosedDraft(draft) && samePoint(p, draft[0])) return i;
+  return -1;
+}).filter(i => i >= 0);
+
+// Indices of points in the middle of a straight run, within COLLINEAR_EPS of the chord of their neighbours
+const collinearIndices = (draft: Draft): number[] => {
+  const out: number[] = [];
+  for (let i = 1; i + 1 < draft.length; i++) {
+    const a = draft[i - 1], b = draft[i], c = draft[i + 1];
+    if (segmentCurve(a, b, 1) || segmentCurve(b, c, 1) || samePoint(a, b) || samePoint(b, c)) continue;
+    const foot = nearestOnSegment(b, a, c);
+    if (distance(foot, b) < COLLINEAR_EPS && !samePoint(foot, a) && !samePoint(foot, c)) out.push(i);
+  }
+  return out;
+};
+
+export const checkDraft = (draft: Draft, tol: number): DraftIssue[] => {
+  const distinct = draft.filter((p, i) => !draft.slice(0, i).some(q => samePoint(p, q)));
+  if (distinct.length < 3) return [{ level: 'error', code: 'tooFew', message: 'The draft needs at least 3 distinct points', points: distinct.map(p => [p[0], p[1]]) }];
+  const issues: DraftIssue[] = [];
+  const { points } = flattenDraft(draft, tol);
+  const crossings = ringSelfIntersections(points);
+  if (crossings.length > 0) {
+    issues.push({ level: 'error', code: 'selfIntersection', message: `The draft crosses itself (${plural(crossings.length, 'place')}); move points so its outline does not cross`, points: crossings });
+  } else if (ringArea(points) < AREA_EPS) {
+    issues.push({ level: 'error', code: 'zeroArea', message: 'The draft encloses no area', points: [] });
+  }
+  const dups = duplicateIndices(draft), straight = collinearIndices(draft);
+  const at = (idx: number[]) => idx.map((i): Point => [draft[i][0], draft[i][1]]);
+  if (dups.length > 0) issues.push({ level: 'warning', code: 'duplicate', message: plural(dups.length, 'duplicate point'), points: at(dups) });
+  if (straight.length > 0) issues.push({ level: 'warning', code: 'collinear', message: `${plural(straight.length, 'point')} on a straight line between neighbours`, points: at(straight) });
+  return issues;
+};
+
+// Base edge a slide moves material away from: the outline edge that `v` maps onto another outline edge
+const slideSourceEdge = (base: BaseTile, v: Point): [Point, Point] | null => {
+  const n = base.outline.length;
+  for (let i = 0; i < n; i++) {
+    const p = base.outline[i], q = base.outline[(i + 1) % n];
+    const p2: Point = [p[0] + v[0], p[1] + v[1]], q2: Point = [q[0] + v[0], q[1] + v[1]];
+    const partner = base.outline.some((r, j) => {
+      const s2 = base.outline[(j + 1) % n];
+      return (samePoint(r, p2) && samePoint(s2, q2)) || (samePoint(r, q2) && samePoint(s2, p2));
+    });
+    if (partner) return [p, q];
+  }
+  return null;
+};
+
+// Whether a closed ring crosses or touches edge a–b, or holds its midpoint
+const ringReachesEdge = (ring: Ring, [a, b]: [Point, Point]): boolean => {
+  const mid: Point = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  return ring.some((p, i) => i > 0 && segmentIntersection(ring[i - 1], p, a, b)) || pointInRing(mid, ring);
+};
+
+// Points of a cut's moved piece that land outside the work region (boundary points count as inside)
+const workAreaIssues = (base: BaseTile, moved: Ring, what: string): DraftIssue[] => {
+  const region = baseWorkRegion(base);
+  const outside = openRing(moved).filter(p => !pointInMP(p, region) && distance(p, nearestOnMP(region, p) || p) > VERTEX_EPS);
+  if (outside.length === 0) return [];
+  return [{ level: 'warning', code: 'leavesWorkArea', message: `Part of the ${what} piece lands outside the cells around the base and will be cut off`, points: outside }];
+};
+
+// Draft checks plus the op's own: a known slide or a turn its pivot allows, and a cut that reaches the edge
+// it slides from
+export const checkTileOp = (s: TileState, op: TileOp): DraftIssue[] => {
+  const issues = checkDraft(op.draft, s.curveTol);
+  const base = baseOf(s);
+  if (op.type === 'cutTurn') {
+    const pivot = pivotPoints(base.outline).find(pv => pv.id === op.pivot);
+    if (!pivot) return [...issues, { level: 'error', code: 'badTurn', message: `A ${s.baseKind} base has no pivot "${op.pivot}"`, points: [] }];
+    if (!pivot.angles.some(a => Math.abs(a - op.angle) < 1e-6)) {
+      const allowed = pivot.angles.length > 0 ? `only turns by ${pivot.angles.map(a => `${a}°`).join(' or ')}` : 'is not a turn centre of its tiling';
+      return [...issues, { level: 'error', code: 'badTurn', message: `${pivot.label} of a ${s.baseKind} base ${allowed}`, points: [pivot.p] }];
+    }
+    if (issues.some(i => i.level === 'error')) return issues;
+    const moved = flattenDraft(op.draft, s.curveTol).points.map(p => rotatePoint(p, op.angle, pivot.p[0], pivot.p[1]));
+    return [...issues, ...workAreaIssues(base, moved, 'turned')];
+  }
+  if (op.type !== 'cutSlide' && op.type !== 'cutGlide') return issues;
+  const slide = base.slides.find(sl => sl.id === op.slide && (op.type === 'cutSlide' || sl.glide));
+  if (!slide) return [...issues, { level: 'error', code: 'unknownSlide', message: `A ${s.baseKind} base has no ${op.type === 'cutGlide' ? 'glide' : 'slide'} "${op.slide}"`, points: [] }];
+  if (issues.some(i => i.level === 'error')) return issues;
+  const { points } = flattenDraft(op.draft, s.curveTol);
+  const edge = slideSourceEdge(base, slide.v);
+  if (edge && !ringReachesEdge(points, edge)) {
+    issues.push({ level: 'warning', code: 'missesEdge', message: `The draft does not touch the edge this cut slides from (${slide.title}); the moved piece will not join the tile`, points: [edge[0], edge[1]] });
+  }
+  // the same move as applyTileOp: glides mirror across the tile's axis along the slide first
+  const mirrored = op.type === 'cutGlide' ? reflectRing(points, baseCenter(base), slide.v) : points;
+  return [...issues, ...workAreaIssues(base, translateRing(mirrored, slide.v[0], slide.v[1]), op.type === 'cutGlide' ? 'mirrored' : 'slid')];
+};
+
+// Drop duplicate points (keeping the first one's curve settings, or the dropped one's out-handle if it had
+// none) and straight-run points within COLLINEAR_EPS of their neighbours' chord
+export const repairDraft = (draft: Draft): Draft => {
+  let out = draft;
+  for (;;) {
+    const dups = duplicateIndices(out);
+    if (dups.length > 0) {
+      const i = dups[0], prev = out[i - 1], attrs: DraftAttrs = { ...attrsOf(prev) };
+      if (!samePoint(out[i], prev)) { // open end next to the start
+        out = out.slice(0, -1);
+        continue;
+      }
+      if (!attrs.h && attrsOf(out[i]).h) attrs.h = attrsOf(out[i]).h;
+      const merged: DraftPoint = Object.keys(attrs).length > 0 ? [prev[0], prev[1], attrs] : [prev[0], prev[1]];
+      out = [...out.slice(0, i - 1), merged, ...out.slice(i + 1)];
+      continue;
+    }
+    const straight = collinearIndices(out);
+    if (straight.length > 0 && out.length > 3) {
+      out = out.filter((_, i) => i !== straight[0]);
+      continue;
+    }
+    return out;
+  }
+};
+
+/******************** Tile Operations ********************/
+// Each op flattens its draft, cuts it from the tile and puts the moved copy back (the booleans just add or
+// remove it), clipped to the base work region. Curves of the draft join the registry, and the draft is
+// cleared. Throws with a readable message when checkTileOp reports an error, the pivot is unknown, the
+// polygon engine fails or nothing of the tile would be left.
+
+// Adds each of `points` lying on an edge of `mp` (not at its ends) to that edge as a vertex
+const splitEdgesAt = (mp: MultiPolygon, points: Point[]): MultiPolygon => mp.map(poly => poly.map(ring => {
+  const open = openRing(ring);
+  const out: Ring = [];
+  open.forEach((p, i) => {
+    const q = open[(i + 1) % open.length];
+    const dx = q[0] - p[0], dy = q[1] - p[1], len2 = dx*dx + dy*dy;
+    out.push(p);
+    if (len2 === 0) return;
+    points
+      .filter((r, k) => !samePoint(r, p) && !samePoint(r, q) && distance(nearestOnSegment(r, p, q), r) < VERTEX_EPS && points.findIndex(o => samePoint(o, r)) === k)
+      .map(r => ({ r, t: ((r[0] - p[0])*dx + (r[1] - p[1])*dy) / len2 }))
+      .filter(({ t }) => t > 0 && t < 1)
+      .sort((u, v) => u.t - v.t)
+      .forEach(({ r }) => out.push(r));
+  });
+  return [...out, out[0]];
+}));
+
+// Gives a moved piece and the rest of the tile exact common coordinates before their union: vertices of the
+// piece within VERTEX_EPS of a tile vertex move onto it, and vertices of either that lie on an edge of the
+// other join that edge. A piece turned onto a slanted edge misses it by float noise, and polygon-clipping
+// would keep it as a separate polygon.
+const weldMP = (rest: MultiPolygon, piece: MultiPolygon): [MultiPolygon, MultiPolygon] => {
+  const restPoints = rest.flat(2);
+  const snapped = piece.map(poly => poly.map(ring => ring.map(p => restPoints.find(q => samePoint(p, q)) || p)));
+  return [splitEdgesAt(rest, snapped.flat(2)), splitEdgesAt(snapped, restPoints)];
+};
+
+export const applyTileOp = <S extends TileState>(s: S, op: TileOp): S => {
+  const error = checkTileOp(s, op).find(i => i.level === 'error');
+  if (error) throw new Error(error.message);
+  const base = baseOf(s);
+  const bounds = baseWorkRegion(base);
+  const { points, curves } = flattenDraft(op.draft, s.curveTol);
+  const cutMP = simplePolygonToMP(points);
+  const result = (tileMP: MultiPolygon, movedCurves: Curve[] = []): S => {
+    if (mpArea(tileMP) < AREA_EPS) throw new Error('This would leave nothing of the tile');
+    return { ...s, tileMP, curves: pruneCurves([...s.curves, ...curves, ...movedCurves], tileMP), draftShape: [] };
+  };
+
+  if (op.type === 'union') return result(mpUnion(s.tileMP, cutMP, bounds));
+  if (op.type === 'subtract') return result(mpDiff(s.tileMP, cutMP, bounds));
+  if (op.type === 'cutTurn') {
+    const pivot = pivotPoints(base.outline).find(pv => pv.id === op.pivot);
+    if (!pivot) throw new Error(`A ${s.baseKind} base has no pivot "${op.pivot}"`);
+    const [rest, moved] = weldMP(mpDiff(s.tileMP, cutMP, bounds), roundMP(rotateMP(cutMP, op.angle, pivot.p[0], pivot.p[1])));
+    return result(mpUnion(rest, moved, bounds), rotateCurves(curves, op.angle, pivot.p[0], pivot.p[1]));
+  }
+  // checkTileOp has made sure the slide exists
+  const slide = base.slides.find(sl => sl.id === op.slide) as Slide;
+  const rest = mpDiff(s.tileMP, cutMP, bounds); // remove from source edge side
+  if (op.type === 'cutGlide') {
+    // mirror across the tile's axis along the glide, then slide to the opposite edge
+    const mirrored = reflectMP(cutMP, baseCenter(base), slide.v);
+    const movedCurves = translateCurves(reflectCurves(curves, baseCenter(base), slide.v), slide.v[0], slide.v[1]);
+    return result(mpUnion(...weldMP(rest, translateMP(mirrored, slide.v[0], slide.v[1])), bounds), movedCurves);
+  }
+  return result(mpUnion(...weldMP(rest, translateMP(cutMP, slide.v[0], slide.v[1])), bounds), translateCurves(curves, slide.v[0], slide.v[1]));
+};
+
+// Fresh tile state for a base: the tile is the base outline itself
+export const initialTileState = (baseKind: BaseKind, w: number, h: number, baseAngle = 60, curveTol = 0.5): TileState => {
+  const [tileW, tileH] = normalizeTileSize(baseKind, w, h, baseAngle);
+  return { baseKind, baseAngle, tileW, tileH, tileMP: baseRegion(baseTile(baseKind, tileW, tileH, baseAngle)), curves: [], curveTol, draftShape: [] };
+};
+
+/******************** Tessellation Validity ********************/
+// Checks the tile against its neighbours in the tiling of its base (baseCells moved by i*a + j*b), trying
+// the arrangements the cut modes produce, and passes when any of them has no overlaps and no gaps:
+//   translations – every copy as is (cut & slide; triangles bring their half-turned cells)
+//   half-turns   – four-sided bases: copies turned 180° about the centre on alternate columns, rows or both,
+//                  the tilings of cut & turn about edge midpoints (p2)
+//   glides       – copies mirrored along a glide slide's lattice vector on alternate columns or rows (cut & glide, pg)
+// and their combinations, then the arrangements of cut & turn about corners, built from the turns themselves:
+//   corner turns – copies turned about opposite corners of a square (p4), alternate corners of a hexagon (p3),
+//                  or a triangle's corner and the midpoint across from it (p6)
+export const AREA_EPS = 0.5;
+
+export const ringArea = (ring: Ring): number => {
+  let a = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i], [x2, y2] = ring[(i + 1) % ring.length];
+    a += x1*y2 - x2*y1;
+  }
+  return Math.abs(a) / 2;
+};
+export const polyArea = (poly: Polygon): number => poly.reduce((acc, ring, i) => acc + (i === 0 ? ringArea(ring) : -ringArea(ring)), 0);
+export const mpArea = (mp: MultiPolygon): number => mp.reduce((acc, poly) => acc + polyArea(poly), 0);
+
+// Symmetries of the base about its centre that alternate with the lattice: the half-turn for four-sided
+// bases, and the mirror along each lattice vector a glide slide moves by
+type CellSymmetry = { id: string; apply: (mp: MultiPolygon) => MultiPolygon };
+
+const cellSymmetries = (base: BaseTile): CellSymmetry[] => {
+  const c = baseCenter(base);
+  const out: CellSymmetry[] = [];
+  if (base.slides.length > 0 && base.outline.length === 4) {
+    out.push({ id: 'half', apply: mp => mp.map(poly => poly.map(ring => ring.map(([x, y]): Point => [2*c[0] - x, 2*c[1] - y]))) });
+  }
+  base.lattice.forEach((v, k) => {
+    const parallel = (u: Point) => Math.abs(u[0]*v[1] - u[1]*v[0]) < 1e-9 * (Math.hypot(...u) * Math.hypot(...v) + 1);
+    if (base.slides.some(sl => sl.glide && parallel(sl.v))) out.push({ id: `mirror${k}`, apply: mp => roundMP(reflectMP(mp, c, v)) });
+  });
+  return out;
+};
+
+// Lattice arrangements, as [symmetry on odd columns (i), symmetry on odd rows (j)]; plain translations first
+const latticeLayouts = (base: BaseTile): Array<[CellSymmetry | null, CellSymmetry | null]> => {
+  const options = [null, ...cellSymmetries(base)];
+  return options.flatMap(x => options.map((y): [CellSymmetry | null, CellSymmetry | null] => [x, y]));
+};
+
+type TileCopy = { key: string; mp: MultiPolygon };
+
+// Copies of the tile around it in one lattice arrangement, each tagged with a key for caching its overlap
+const latticeCopies = (mp: MultiPolygon, base: BaseTile, [x, y]: [CellSymmetry | null, CellSymmetry | null]): TileCopy[] => {
+  const [a, b] = base.lattice;
+  const copies: TileCopy[] = [];
+  baseCells(base).forEach((cell, ci) => {
+    for (let i = -1; i <= 1; i++) for (let j = -1; j <= 1; j++) {
+      if (ci === 0 && i === 0 && j === 0) continue; // the tile itself
+      const sx = i % 2 !== 0 ? x : null, sy = j % 2 !== 0 ? y : null;
+      let copy = cell(mp);
+      if (sx) copy = sx.apply(copy);
+      if (sy) copy = sy.apply(copy);
+      copies.push({ key: `${ci}:${i},${j}:${sx ? sx.id : ''}:${sy ? sy.id : ''}`, mp: translateMP(copy, i*a[0] + j*b[0], i*a[1] + j*b[1]) });
+    }
+  });
+  return copies;
+};
+
+// Turn centres of each corner-turn arrangement, as [pivot, angle]; none unless the base's corners turn
+const cornerTurnLayouts = (base: BaseTile): Array<Array<[Point, number]>> => {
+  const pivots = pivotPoints(base.outline);
+  const n = base.outline.length, turn = pivots[0].angles[0];
+  if (!turn) return [];
+  const corner = (i: number): [Point, number] => [base.outline[i % n], turn];
+  if (n === 3) return [0, 1, 2].map(k => [corner(k), [(pivots.find(pv => pv.id === `m${(k + 1) % n}`) as Pivot).p, 180]]);
+  return [0, 1].map(k => [0, 2, 4].filter(d => d < n).map(d => corner(k + d)));
+};
+
+// A motion of the plane: turn by `deg` about the origin, then move by (dx, dy)
+type Motion = [number, number, number];
+const composeMotion = ([d1, x1, y1]: Motion, [d2, x2, y2]: Motion): Motion => {
+  const [x, y] = rotatePoint([x2, y2], d1, 0, 0);
+  return [((d1 + d2) % 360 + 360) % 360, x + x1, y + y1];
+};
+
+// Copies of the tile around it in one corner-turn arrangement: the motions the turns generate, composed
+// outward from the tile and kept while the base centre lands within two circumradii, which covers every
+// cell touching the base. Motions are told apart by turn and where they take the centre, within a unit,
+// since hexagon and triangle heights are rounded and the turns drift by a little each step.
+const cornerTurnCopies = (mp: MultiPolygon, base: BaseTile, centres: Array<[Point, number]>): TileCopy[] => {
+  const c = baseCenter(base);
+  const reach = 2 * Math.max(...base.outline.map(p => distance(p, c))) + 1;
+  const turns = centres.flatMap(([p, deg]) => [deg, -deg].map((d): Motion => {
+    const [x, y] = rotatePoint(p, d, 0, 0);
+    return [(d + 360) % 360, p[0] - x, p[1] - y];
+  }));
+  const centreOf = ([d, dx, dy]: Motion): Point => {
+    const [x, y] = rotatePoint(c, d, 0, 0);
+    return [x + dx, y + dy];
+  };
+  const seen: Array<[number, Point]> = [[0, c]];
+  const copies: TileCopy[] = [];
+  let frontier: Motion[] = [[0, 0, 0]];
+  while (frontier.length > 0) {
+    const next: Motion[] = [];
+    for (const m of frontier) for (const t of turns) {
+      const moved = composeMotion(t, m), at = centreOf(moved), turn = Math.round(moved[0]) % 360;
+      if (distance(at, c) > reach || seen.some(([d, p]) => d === turn && distance(p, at) < 1)) continue;
+      seen.push([turn, at]);
+      next.push(moved);
+      copies.push({ key: `turn:${turn}:${Math.round(at[0])},${Math.round(at[1])}`, mp: roundMP(translateMP(rotateMP(mp, moved[0], 0, 0), moved[1], moved[2])) });
+    }
+    frontier = next;
+  }
+  return copies;
+};
+
+// Arrangements to try, each making the tile's neighbours: plain translations first
+const tessellationLayouts = (base: BaseTile): Array<(mp: MultiPolygon) => TileCopy[]> => [
+  ...latticeLayouts(base).map(layout => (mp: MultiPolygon) => latticeCopies(mp, base, layout)),
+  ...cornerTurnLayouts(base).map(centres => (mp: MultiPolygon) => cornerTurnCopies(mp, base, centres)),
+];
+
+export type TessellationReport = { ok: boolean; issues: string[]; overlaps: MultiPolygon; gaps: MultiPolygon };
+
+// Reports the first arrangement that fits; when none does, the arrangement without overlaps that leaves the
+// least gap, else plain translations
+export const checkTessellation = (mp: MultiPolygon, base: BaseTile): TessellationReport => {
+  const issues: string[] = [];
+  let overlaps: MultiPolygon = [], gaps: MultiPolygon = [];
+  const area = mpArea(mp);
+  const expected = ringArea(base.outline);
+  if (Math.abs(area - expected) > Math.max(AREA_EPS, expected * 1e-3)) {
+    issues.push(`Area is ${area.toFixed(1)} but the base tile has ${expected.toFixed(1)}`);
+  }
+  if (mp.length !== 1) issues.push(`Tile has ${mp.length} separate pieces`);
+  if (mp.some(poly => poly.length > 1)) issues.push('Tile has holes');
+  try {
+    const hitCache = new Map<string, MultiPolygon>();
+    const hitOf = (c: TileCopy) => {
+      if (!hitCache.has(c.key)) hitCache.set(c.key, pc.intersection(mp, c.mp));
+      return hitCache.get(c.key) as MultiPolygon;
+    };
+    let best: { hits: MultiPolygon[]; holes: MultiPolygon } | null = null;
+    for (const [li, layout] of tessellationLayouts(base).entries()) {
+      const copies = layout(mp);
+      const hits = copies.map(hitOf).filter(o => mpArea(o) > AREA_EPS);
+      if (hits.length > 0 && li > 0) continue; // only plain translations are reported with overlaps
+      const holes = pc.difference(baseRegion(base), mp, ...copies.map(c => c.mp));
+      if (!best || (hits.length === 0 && (best.hits.length > 0 || mpArea(holes) < mpArea(best.holes)))) best = { hits, holes };
+      if (hits.length === 0 && mpArea(holes) <= AREA_EPS) break;
+    }
+    if (best && best.hits.length > 0) {
+      overlaps = pc.union(best.hits[0], ...best.hits.slice(1));
+      issues.push(`Overlaps neighbours by ${mpArea(overlaps).toFixed(1)}`);
+    }
+    if (best && mpArea(best.holes) > AREA_EPS) {
+      gaps = best.holes;
+      issues.push(`Leaves gaps of ${mpArea(gaps).toFixed(1)}`);
+    }
+  } catch (e) {
+    issues.push(clipError('The tessellation check', e).message);
+  }
+  return { ok: issues.length === 0, issues, overlaps, gaps };
+};
+
+/******************** Hyperbolic Tiles (Circle Limit) ********************/
+// A Circle Limit tile is a hyperbolic polygon in the unit disk, grown from a regular {p,q} tile (p-gons, q
+// around each vertex). Its geometry is kept in the Beltrami–Klein model, where geodesics are straight
+// chords, so the tile stays an ordinary MultiPolygon: polygon-clipping does the booleans and drafts are
+// checked like plane drafts. It is drawn in the Poincaré model, where the chords become circle arcs meeting
+// the rim at right angles and copies keep their shape as they shrink toward the rim.
+// Klein coordinates are scaled by HYPER_R so the plane tolerances (VERTEX_EPS, AREA_EPS) still fit; Möbius
+// maps and the Poincaré points they act on use the unit disk.
+export const HYPER_R = 300;
+export const MOBIUS_IDENTITY: Mobius = [1, 0, 0, 0];
+const HYPER_BOUNDS: MultiPolygon = translateMP(rectMultiPolygon(2*HYPER_R, 2*HYPER_R), -HYPER_R, -HYPER_R);
+
+type Complex = [number, number];
+const cadd = (a: Complex, b: Complex): Complex => [a[0] + b[0], a[1] + b[1]];
+const cmul = (a: Complex, b: Complex): Complex => [a[0]*b[0] - a[1]*b[1], a[0]*b[1] + a[1]*b[0]];
+const cdiv = (a: Complex, b: Complex): Complex => {
+  const d = b[0]*b[0] + b[1]*b[1];
+  return [(a[0]*b[0] + a[1]*b[1]) / d, (a[1]*b[0] - a[0]*b[1]) / d];
+};
+
+// Klein (scaled by HYPER_R) ↔ Poincaré (unit disk); the models agree on directions from the centre
+export const kleinToDisk = ([x, y]: XY): Point => {
+  const kx = x / HYPER_R, ky = y / HYPER_R;
+  const f = 1 / (1 + Math.sqrt(Math.max(0, 1 - kx*kx - ky*ky)));
+  return [kx*f, ky*f];
+};
+export const diskToKlein = ([x, y]: XY): Point => {
+  const f = 2*HYPER_R / (1 + x*x + y*y);
+  return [x*f, y*f];
+};
+
+export const applyMobius = ([ar, ai, br, bi]: Mobius, [x, y]: XY): Point => {
+  const z: Complex = [x, y];
+  return cdiv(cadd(cmul([ar, ai], z), [br, bi]), cadd(cmul([br, -bi], z), [ar, -ai]));
+};
+// m1 after m2, renormalised so rounding does not build up over long drags
+export const composeMobius = ([a1r, a1i, b1r, b1i]: Mobius, [a2r, a2i, b2r, b2i]: Mobius): Mobius => {
+  const a = cadd(cmul([a1r, a1i], [a2r, a2i]), cmul([b1r, b1i], [b2r, -b2i]));
+  const b = cadd(cmul([a1r, a1i], [b2r, b2i]), cmul([b1r, b1i], [a2r, -a2i]));
+  const k = Math.sqrt(Math.max(1e-12, a[0]*a[0] + a[1]*a[1] - b[0]*b[0] - b[1]*b[1]));
+  return [a[0] / k, a[1] / k, b[0] / k, b[1] / k];
+};
+export const invertMobius = ([ar, ai, br, bi]: Mobius): Mobius => [ar, -ai, -br, -bi];
+
+// Rotation about the centre, positive = clockwise on screen like rotatePoint
+export const diskRotation = (deg: number): Mobius => {
+  const t = deg * Math.PI / 360;
+  return [Math.cos(t), Math.sin(t), 0, 0];
+};
+// Hyperbolic translation taking the centre to disk point w
+export const diskTranslation = ([x, y]: XY): Mobius => {
+  const k = 1 / Math.sqrt(1 - x*x - y*y);
+  return [k, 0, x*k, y*k];
+};
+export const diskRotationAbout = (w: XY, deg: number): Mobius =>
+  composeMobius(diskTranslation(w), composeMobius(diskRotation(deg), diskTranslation([-w[0], -w[1]])));
+// Rotation part of m at the centre, in degrees (exact when m fixes the centre)
+export const mobiusAngle = ([ar, ai]: Mobius): number => Math.atan2(ai, ar) * 360 / Math.PI;
+
+export const hyperDistance = (z: XY, w: XY): number => {
+  const den = Math.hypot(1 - (w[0]*z[0] + w[1]*z[1]), w[0]*z[1] - w[1]*z[0]); // |1 − w̄ z|
+  return 2 * Math.atanh(Math.min(distance(z, w) / den, 1 - 1e-12));
+};
+
+// Klein MP moved by a disk isometry; chords map to chords, so this is exact
+export const moveKleinMP = (mp: MultiPolygon, m: Mobius): MultiPolygon =>
+  mp.map(poly => poly.map(ring => ring.map(k => diskToKlein(applyMobius(m, kleinToDisk(k))))));
+
+const fmtDisk = (v: number) => String(+(v * HYPER_R).toFixed(3) || 0);
+
+// SVG command for the geodesic from disk point a to b: the short arc of the circle through both that is
+// orthogonal to the rim (centre c with 2 c·a = 1 + |a|², 2 c·b = 1 + |b|²), or a line through the centre
+const geodesicTo = (a: Point, b: Point): string => {
+  const end = `${fmtDisk(b[0])} ${fmtDisk(b[1])}`;
+  const det = 2 * (a[0]*b[1] - a[1]*b[0]);
+  if (Math.abs(det) < 1e-9) return `L${end}`;
+  const ka = 1 + a[0]*a[0] + a[1]*a[1], kb = 1 + b[0]*b[0] + b[1]*b[1];
+  const cx = (ka*b[1] - kb*a[1]) / det, cy = (a[0]*kb - b[0]*ka) / det;
+  const r = Math.sqrt(cx*cx + cy*cy - 1);
+  if (!(r < 1e4)) return `L${end}`;
+  const sweep = (a[0] - cx)*(b[1] - cy) - (a[1] - cy)*(b[0] - cx) > 0 ? 1 : 0;
+  return `A${fmtDisk(r)} ${fmtDisk(r)} 0 0 ${sweep} ${end}`;
+};
+
+// Path of disk points joined by geodesics, at HYPER_R scale
+export const geodesicPath = (points: Point[], closed: boolean): string => points.length === 0 ? '' :
+  `M${fmtDisk(points[0][0])} ${fmtDisk(points[0][1])}` + points.slice(1).map((p, i) => geodesicTo(points[i], p)).join('') +
+  (closed && points.length > 2 ? `${geodesicTo(points[points.length - 1], points[0])}Z` : '');
+
+// Poincaré path of a Klein MP placed by m, with true arcs
+export const hyperMPPath = (mp: MultiPolygon, m: Mobius = MOBIUS_IDENTITY): string =>
+  openMP(mp).map(poly => poly.map(ring => geodesicPath(ring.map(k => applyMobius(m, kleinToDisk(k))), true)).join(' ')).join(' ');
+
+export const isHyperbolic = (p: number, q: number): boolean =>
+  Number.isInteger(p) && Number.isInteger(q) && p >= 3 && q >= 3 && (p - 2) * (q - 2) > 4;
+
+// Regular {p,q} tile centred in the disk. Vertex i sits at angle 90° + (2i − 1)·180°/p, so edge i runs from
+// vertex i to i + 1 and edge 0 is at the bottom. For even p, the translation along the axis through the
+// midpoints of edges k and k + p/2, by twice their distance from the centre, maps the tile onto its
+// neighbour across edge k and edge k + p/2 onto edge k; it takes the centre to disk radius s, which is the
+// Klein radius of the midpoints. Odd p has no opposite edges, so its edges pair by turns only.
+export const hyperBase = (p: number, q: number): HyperBase => {
+  if (!isHyperbolic(p, q)) throw new Error(`{${p},${q}} does not tile the hyperbolic plane; it needs (p − 2)(q − 2) > 4`);
+  const c = 1 / (Math.tan(Math.PI / p) * Math.tan(Math.PI / q)); // cosh of the circumradius
+  const rK = Math.sqrt(1 - 1 / (c*c)); // its tanh: the Klein circumradius
+  const outline: Ring = Array.from({ length: p }, (_, i): Point => {
+    const a = Math.PI / 2 + (2*i - 1) * Math.PI / p;
+    return [HYPER_R * rK * Math.cos(a), HYPER_R * rK * Math.sin(a)];
+  });
+  const s = rK * Math.cos(Math.PI / p);
+  const slides = p % 2 ? [] : outline.map((_, j): HyperSlide => {
+    const k = (j + p/2) % p, phi = Math.PI / 2 + 2*Math.PI*k / p;
+    return { id: `e${j}`, label: `Edge ${j + 1} → ${k + 1}`, edge: [outline[j], outline[(j + 1) % p]], m: diskTranslation([s*Math.cos(phi), s*Math.sin(phi)]) };
+  });
+  // q tiles meet at a corner, two at an edge midpoint
+  const pivots = pivotPoints(outline).map(pv => ({ ...pv, angles: pv.id.startsWith('c') ? [360 / q, -360 / q] : [180] }));
+  return { p, q, outline, slides, pivots, rotStep: 360 / p };
+};
+
+// Placements of the {p,q} tile in breadth-first order, each as the map taking the base onto it: every tile
+// whose centre is within disk radius `maxRadius`, up to `limit`. Compose with diskRotation(k · rotStep)
+// for the other orientations of the same place.
+export const hyperTiling = (base: HyperBase, limit: number, maxRadius = 0.98): Mobius[] => {
+  const halfTurns = base.pivots.filter(pv => pv.id.startsWith('m')).map(pv => diskRotationAbout(kleinToDisk(pv.p), 180));
+  const out: Mobius[] = [MOBIUS_IDENTITY];
+  const seen = new Set(['0,0']);
+  for (let i = 0; i < out.length && out.length < limit; i++) {
+    for (const h of halfTurns) {
+      const g = composeMobius(out[i], h);
+      const [x, y] = applyMobius(g, [0, 0]);
+      const key = `${Math.round(x * 1e5)},${Math.round(y * 1e5)}`;
+      if (x*x + y*y > maxRadius*maxRadius || seen.has(key)) continue;
+      seen.add(key);
+      out.push(g);
+      if (out.length >= limit) break;
+    }
+  }
+  return out;
+};
+
+// Nearest placement of the tiling to m (by centre, then orientation), or m itself when no centre is
+// within hyperbolic distance `maxDist`
+export const snapToTiling = (m: Mobius, tiling: Mobius[], rotStep: number, maxDist: number): Mobius => {
+  const c = applyMobius(m, [0, 0]);
+  let best: Mobius | null = null, bestDist = maxDist;
+  tiling.forEach(g => {
+    const d = hyperDistance(c, applyMobius(g, [0, 0]));
+    if (d < bestDist) { best = g; bestDist = d; }
+  });
+  if (!best) return m;
+  const turn = mobiusAngle(composeMobius(invertMobius(best), m));
+  return composeMobius(best, diskRotation(Math.round(turn / rotStep) * rotStep));
+};
+
+export const initialHyperState = (p: number, q: number, tileFill: string): HyperState =>
+  ({ p, q, tileMP: [[hyperBase(p, q).outline]], tileFill, instances: [] });
+
+// Draft checks plus the op's own: points inside the disk, a known slide and a cut that reaches its edge
+export const checkHyperOp = (h: HyperState, op: HyperOp): DraftIssue[] => {
+  const outside = op.draft.filter(k => Math.hypot(k[0], k[1]) >= HYPER_R * (1 - 1e-6));
+  if (outside.length > 0) return [{ level: 'error', code: 'outsideDisk', message: 'The draft must stay inside the disk', points: outside.map((k): Point => [k[0], k[1]]) }];
+  const issues = checkDraft(op.draft, 1);
+  if (op.type !== 'slide') return issues;
+  const slide = hyperBase(h.p, h.q).slides.find(sl => sl.id === op.slide);
+  if (!slide) {
+    const why = h.p % 2 ? '; odd p pairs its edges by turns only' : '';
+    return [...issues, { level: 'error', code: 'unknownSlide', message: `A {${h.p},${h.q}} tile has no slide "${op.slide}"${why}`, points: [] }];
+  }
+  if (!issues.some(i => i.level === 'error') && !ringReachesEdge(flattenDraft(op.draft, 1).points, slide.edge)) {
+    issues.push({ level: 'warning', code: 'missesEdge', message: `The draft does not touch the edge this cut slides from (${slide.label}); the moved piece will not join the tile`, points: slide.edge });
+  }
+  return issues;
+};
+
+// Same contract as applyTileOp, with disk isometries in place of translations and rotations: the draft is
+// cut from the tile and its moved copy put back. Turns must be ones the pivot allows (HyperPivot.angles).
+export const applyHyperOp = (h: HyperState, op: HyperOp): HyperState => {
+  const error = checkHyperOp(h, op).find(i => i.level === 'error');
+  if (error) throw new Error(error.message);
+  const base = hyperBase(h.p, h.q);
+  const cutMP = simplePolygonToMP(flattenDraft(op.draft, 1).points);
+  const result = (tileMP: MultiPolygon): HyperState => {
+    if (mpArea(tileMP) < AREA_EPS) throw new Error('This would leave nothing of the tile');
+    return { ...h, tileMP };
+  };
+
+  if (op.type === 'union') return result(mpUnion(h.tileMP, cutMP, HYPER_BOUNDS));
+  if (op.type === 'subtract') return result(mpDiff(h.tileMP, cutMP, HYPER_BOUNDS));
+  let m: Mobius;
+  if (op.type === 'turn') {
+    const pivot = base.pivots.find(pv => pv.id === op.pivot);
+    if (!pivot) throw new Error(`A {${h.p},${h.q}} tile has no pivot "${op.pivot}"`);
+    if (!pivot.angles.some(a => Math.abs(a - op.angle) < 1e-6)) {
+      throw new Error(`${pivot.label} of a {${h.p},${h.q}} tile turns by ${pivot.angles.map(a => `${+a.toFixed(2)}°`).join(' or ')}`);
+    }
+    m = diskRotationAbout(kleinToDisk(pivot.p), op.angle);
+  } else {
+    m = (base.slides.find(sl => sl.id === op.slide) as HyperSlide).m; // checkHyperOp has made sure it exists
+  }
+  const rest = mpDiff(h.tileMP, cutMP, HYPER_BOUNDS);
+  return result(mpUnion(...weldMP(roundMP(rest), roundMP(moveKleinMP(cutMP, m))), HYPER_BOUNDS));
+};
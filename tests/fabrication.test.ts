@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { FAB_DEFAULTS, offsetMP, writeDXF, writeGCode, writeSTL, writeTileSheetPDF, type PrintTile } from "../fabrication";
+import { mpArea, openRing, rectMultiPolygon, translateMP, type MultiPolygon } from "../geometry";
+
+const corners = (mp: MultiPolygon) => mp.map(poly => poly.map(ring => openRing(ring).map(p => p.map(v => +v.toFixed(6)).join(',')).sort()));
+const L_SHAPE: MultiPolygon = [[[[0, 0], [60, 0], [60, 20], [20, 20], [20, 50], [0, 50], [0, 0]]]];
+
+test('offsetMP keeps the corners of a rectangle sharp', () => {
+  assert.deepEqual(corners(offsetMP(rectMultiPolygon(100, 50), 2)), [[['-2,-2', '-2,52', '102,-2', '102,52']]]);
+  assert.deepEqual(corners(offsetMP(rectMultiPolygon(100, 50), -2)), [[['2,2', '2,48', '98,2', '98,48']]]);
+});
+
+test('offsetMP mitres concave corners without extra vertices', () => {
+  const grown = offsetMP(L_SHAPE, 1);
+  assert.deepEqual(corners(grown), [[['-1,-1', '-1,51', '21,21', '21,51', '61,-1', '61,21']]]);
+  assert.equal(mpArea(grown), 62*22 + 22*30);
+  const shrunk = offsetMP(L_SHAPE, -1);
+  assert.deepEqual(corners(shrunk), [[['1,1', '1,49', '19,19', '19,49', '59,1', '59,19']]]);
+});
+
+test('offsetMP bevels corners sharper than the mitre limit', () => {
+  const sliver: MultiPolygon = [[[[0, 0], [100, 0], [0, 10], [0, 0]]]];
+  const [[outer]] = offsetMP(sliver, 1);
+  assert.equal(openRing(outer).length, 5);
+  assert.ok(Math.max(...outer.map(p => p[0])) < 101);
+});
+
+test('offsetMP grows a shape into its holes', () => {
+  const framed: MultiPolygon = [[[[0, 0], [40, 0], [40, 40], [0, 40], [0, 0]], [[10, 10], [10, 30], [30, 30], [30, 10], [10, 10]]]];
+  assert.deepEqual(corners(offsetMP(framed, 2)), [[['-2,-2', '-2,42', '42,-2', '42,42'], ['12,12', '12,28', '28,12', '28,28']]]);
+});
+
+test('writeDXF writes one closed polyline per ring in millimetres with y up', () => {
+  const dxf = writeDXF([[[[0, 0], [40, 0], [40, 20], [0, 0]]]], { ...FAB_DEFAULTS, mmPerUnit: 0.5 }).split('\n');
+  assert.deepEqual(dxf.slice(0, 4), ['0', 'SECTION', '2', 'HEADER']);
+  assert.equal(dxf.filter(l => l === 'POLYLINE').length, 1);
+  assert.equal(dxf.filter(l => l === 'VERTEX').length, 3);
+  const xy = dxf.flatMap((l, i) => l === 'VERTEX' ? [`${dxf[i + 4]},${dxf[i + 6]}`] : []);
+  assert.deepEqual(xy.sort(), ['0,10', '20,0', '20,10']);
+  assert.deepEqual(dxf.slice(-3), ['0', 'EOF', '']);
+});
+
+test('writeDXF offsets the outline by half the kerf', () => {
+  const dxf = writeDXF(rectMultiPolygon(40, 20), { ...FAB_DEFAULTS, mmPerUnit: 1, kerf: 0.2 }).split('\n');
+  const xy = dxf.flatMap((l, i) => l === 'VERTEX' ? [`${dxf[i + 4]},${dxf[i + 6]}`] : []);
+  assert.deepEqual(xy.sort(), ['0,0', '0,20.2', '40.2,0', '40.2,20.2']);
+});
+
+test('writeGCode traces each ring with the pen down and returns home', () => {
+  const gcode = writeGCode(rectMultiPolygon(40, 20), { ...FAB_DEFAULTS, mmPerUnit: 1 }).trim().split('\n');
+  assert.deepEqual(gcode.slice(1, 4), ['G21 ; millimetres', 'G90 ; absolute coordinates', 'M5']);
+  const start = gcode.findIndex(l => l.startsWith('G0 X'));
+  assert.equal(gcode[start + 1], FAB_DEFAULTS.penDown);
+  assert.match(gcode[start + 2], / F1500$/);
+  const draws = gcode.filter(l => l.startsWith('G1'));
+  assert.equal(draws.length, 4);
+  assert.equal(draws[3].replace(/^G1/, 'G0'), gcode[start]);
+  assert.deepEqual(gcode.slice(-3), ['M5', 'G0 X0 Y0', 'M2']);
+});
+
+// Every edge of a closed mesh is shared by exactly two facets
+const openEdges = (stl: string) => {
+  const vertices = [...stl.matchAll(/vertex (.+)/g)].map(m => m[1]);
+  const count = new Map<string, number>();
+  for (let i = 0; i < vertices.length; i += 3) {
+    [0, 1, 2].forEach(k => {
+      const key = [vertices[i + k], vertices[i + (k + 1) % 3]].sort().join('|');
+      count.set(key, (count.get(key) || 0) + 1);
+    });
+  }
+  return [...count.values()].filter(n => n !== 2).length;
+};
+
+test('writeSTL extrudes a rectangle into a closed box', () => {
+  const stl = writeSTL(rectMultiPolygon(40, 20), FAB_DEFAULTS);
+  assert.match(stl, /^solid tile\n/);
+  assert.match(stl, /endsolid tile\n$/);
+  assert.equal(stl.match(/^facet normal/gm)?.length, 12);
+  assert.equal(openEdges(stl), 0);
+});
+
+test('writeSTL cookie cutters are closed rings of wall', () => {
+  const stl = writeSTL(L_SHAPE, { ...FAB_DEFAULTS, stlMode: 'cutter', mmPerUnit: 1, wall: 2 });
+  assert.equal(openEdges(stl), 0);
+  assert.ok(stl.includes('vertex 2 2 0'));
+});
+
+// Compared byte for byte with the checked-in sheet; run with UPDATE_SNAPSHOTS=1 to rewrite it
+const SHEET_SNAPSHOT = path.resolve('tests/fixtures/tile-sheet.pdf');
+const SHEET_TILE: PrintTile = {
+  name: 'Fish (test)', mp: L_SHAPE, fill: '#3a7',
+  layers: [
+    { id: 'l1', name: 'Eyes', visible: true, items: [
+      { type: 'stroke', points: [[5, 5], [15, 10], [10, 40]], color: '#123456', width: 2 },
+      { type: 'fill', draft: [[30, 5], [50, 5, { arc: 0.5 }], [40, 15]], color: '#f00' },
+    ] },
+    { id: 'l2', name: 'Hidden', visible: false, items: [{ type: 'stroke', points: [[0, 0]], color: '#000', width: 1 }] },
+  ],
+};
+
+test('writeTileSheetPDF matches the checked-in sheet', () => {
+  const pieces = [{ mp: L_SHAPE, fill: '#3a7' }, { mp: translateMP(L_SHAPE, 60, 0), fill: '#fc0' }];
+  const pdf = writeTileSheetPDF(SHEET_TILE, pieces, 1, { pages: 2, mirror: true, registration: true });
+  if (process.env.UPDATE_SNAPSHOTS) fs.writeFileSync(SHEET_SNAPSHOT, pdf, 'latin1');
+  assert.equal(pdf, fs.readFileSync(SHEET_SNAPSHOT, 'latin1'));
+});
+
+test('writeTileSheetPDF refuses tiles larger than the page', () => {
+  assert.throws(() => writeTileSheetPDF(SHEET_TILE, [], 10, {}), /does not fit on the page/);
+});
@@ -0,0 +1,214 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  HYPER_R, applyHyperOp, applyTileOp, baseOf, checkDraft, checkHyperOp, checkTessellation, checkTileOp, hyperBase,
+  initialHyperState, initialTileState, mpArea, pivotPoints, repairDraft, ringArea, rotatePoint, snapToPlacement,
+  type BaseKind, type Draft, type Point, type TileOp, type TileState,
+} from "../geometry";
+
+const tile = (kind: BaseKind, w = 200, h = 160) => initialTileState(kind, w, h);
+// Point a fraction t along base edge i (from corner i to corner i + 1)
+const onEdge = (s: TileState, i: number, t: number): Point => {
+  const o = baseOf(s).outline, p = o[i], q = o[(i + 1) % o.length];
+  return [p[0] + (q[0] - p[0])*t, p[1] + (q[1] - p[1])*t];
+};
+// Point a distance d inside the base from a fraction t along edge i
+const inside = (s: TileState, i: number, t: number, d: number): Point => {
+  const o = baseOf(s).outline, [x, y] = onEdge(s, i, t);
+  const c = o.reduce(([cx, cy], p): Point => [cx + p[0]/o.length, cy + p[1]/o.length], [0, 0]);
+  const len = Math.hypot(c[0] - x, c[1] - y);
+  return [x + (c[0] - x)/len*d, y + (c[1] - y)/len*d];
+};
+const keepsArea = (s: TileState) => assert.ok(Math.abs(mpArea(s.tileMP) - ringArea(baseOf(s).outline)) < 0.5);
+
+test('corner turns on slanted edges join the tile', () => {
+  const cases: Array<[BaseKind, string, number, number]> = [['hexagon', 'c0', 120, 0], ['hexagon', 'c0', -120, 5], ['triangle', 'c0', 60, 0], ['triangle', 'c0', -60, 2]];
+  for (const [kind, pivot, angle, edge] of cases) {
+    const s = tile(kind);
+    const t = edge === 0 ? [0, 0.3] : [0.7, 1];
+    const op: TileOp = { type: 'cutTurn', pivot, angle, draft: [onEdge(s, edge, t[0]), inside(s, edge, (t[0] + t[1]) / 2, 20), onEdge(s, edge, t[1])] };
+    const turned = applyTileOp(s, op);
+    assert.equal(turned.tileMP.length, 1, `${kind} ${pivot} ${angle}°`);
+    keepsArea(turned);
+  }
+});
+
+test('the hexagon corner turn from the report joins the tile', () => {
+  const turned = applyTileOp(tile('hexagon'), { type: 'cutTurn', pivot: 'c0', angle: 120, draft: [[50, 0], [80, 30], [110, 0]] });
+  assert.equal(turned.tileMP.length, 1);
+  keepsArea(turned);
+});
+
+test('slides and glides onto slanted edges join the tile', () => {
+  const cases: Array<[BaseKind, TileOp['type'], string, number]> = [['hexagon', 'cutSlide', 'LRUL', 2], ['hexagon', 'cutGlide', 'BT', 3], ['parallelogram', 'cutSlide', 'RL', 1]];
+  for (const [kind, type, slide, edge] of cases) {
+    const s = tile(kind);
+    const draft = [onEdge(s, edge, 0.2), inside(s, edge, 0.45, 25), onEdge(s, edge, 0.7)];
+    const moved = applyTileOp(s, { type, slide, draft } as TileOp);
+    assert.equal(moved.tileMP.length, 1, `${kind} ${type} ${slide}`);
+    keepsArea(moved);
+  }
+});
+
+const turnsOf = (s: TileState) => Object.fromEntries(pivotPoints(baseOf(s).outline).map(pv => [pv.id, pv.angles]));
+
+test('pivots only offer turns that keep the tile tiling', () => {
+  assert.deepEqual(turnsOf(tile('square')), { c0: [90, -90], c1: [90, -90], c2: [90, -90], c3: [90, -90], m0: [180], m1: [180], m2: [180], m3: [180] });
+  assert.deepEqual(turnsOf(tile('rect')), { c0: [], c1: [], c2: [], c3: [], m0: [180], m1: [180], m2: [180], m3: [180] });
+  assert.deepEqual(turnsOf(tile('parallelogram')).c0, []);
+  assert.deepEqual(turnsOf(tile('hexagon')).c3, [120, -120]);
+  assert.deepEqual(turnsOf(tile('hexagon')).m3, []);
+  assert.deepEqual(turnsOf(tile('triangle')), { c0: [60, -60], c1: [60, -60], c2: [60, -60], m0: [180], m1: [180], m2: [180] });
+});
+
+test('checkTileOp refuses turns the pivot does not allow', () => {
+  const draft: Point[] = [[0, 0], [40, 30], [100, 0]];
+  const codes = (s: TileState, pivot: string, angle: number) => checkTileOp(s, { type: 'cutTurn', pivot, angle, draft }).map(i => `${i.level}:${i.code}`);
+  assert.deepEqual(codes(tile('rect', 240, 160), 'c0', 90), ['error:badTurn']);
+  assert.deepEqual(codes(tile('square'), 'c0', 120), ['error:badTurn']);
+  assert.deepEqual(codes(tile('square'), 'c7', 90), ['error:badTurn']);
+  assert.deepEqual(codes(tile('square'), 'c0', 90), []);
+  assert.throws(() => applyTileOp(tile('rect', 240, 160), { type: 'cutTurn', pivot: 'c0', angle: 90, draft }), /Corner 1 of a rect base is not a turn centre of its tiling/);
+});
+
+// A bump cut from edge `edge` and turned about `pivot`; each pivot's turn carries the edge onto its neighbour
+const cornerTurn = (s: TileState, pivot: string, angle: number, edge: number): TileState =>
+  applyTileOp(s, { type: 'cutTurn', pivot, angle, draft: [onEdge(s, edge, 0.2), inside(s, edge, 0.45, 25), onEdge(s, edge, 0.7)] });
+const validity = (s: TileState) => checkTessellation(s.tileMP, baseOf(s));
+
+test('checkTessellation accepts tiles from corner turns', () => {
+  const cases: Array<[BaseKind, string, number, number]> = [
+    ['square', 'c0', 90, 0], ['square', 'c1', -90, 0], ['square', 'c3', -90, 2],
+    ['hexagon', 'c0', 120, 0], ['hexagon', 'c1', -120, 0], ['triangle', 'c0', 60, 0], ['triangle', 'c2', -60, 1],
+  ];
+  for (const [kind, pivot, angle, edge] of cases) {
+    const turned = cornerTurn(tile(kind), pivot, angle, edge);
+    assert.deepEqual(validity(turned).issues, [], `${kind} ${pivot} ${angle}°`);
+  }
+  // both 4-fold corners of a p4 square
+  assert.deepEqual(validity(cornerTurn(cornerTurn(tile('square'), 'c0', 90, 0), 'c2', 90, 2)).issues, []);
+});
+
+test('checkTessellation still rejects corner turns that do not tile', () => {
+  // turns about adjacent corners of a square both claim its top edge, and the edges no longer match up
+  const square = applyTileOp(cornerTurn(tile('square'), 'c0', 90, 0), { type: 'cutTurn', pivot: 'c1', angle: 90, draft: [[200, 20], [180, 50], [200, 80]] });
+  assert.equal(validity(square).ok, false);
+  // a corner turn mixed with a slide
+  const hexagon = applyTileOp(cornerTurn(tile('hexagon'), 'c0', 120, 0), {
+    type: 'cutSlide', slide: 'LRUL', draft: [onEdge(tile('hexagon'), 2, 0.2), inside(tile('hexagon'), 2, 0.45, 25), onEdge(tile('hexagon'), 2, 0.7)],
+  });
+  const report = validity(hexagon);
+  assert.equal(report.ok, false);
+  assert.ok(report.issues.some(issue => /Overlaps|gaps/.test(issue)), report.issues.join('; '));
+});
+
+const hyperTile = (p: number, q: number) => initialHyperState(p, q, '#fff');
+// A bump cut from edge i of a {p,q} tile between fractions t0 and t1, the inner point pulled toward the centre
+const hyperBump = (p: number, q: number, i: number, t0: number, t1: number): Point[] => {
+  const o = hyperBase(p, q).outline, a = o[i], b = o[(i + 1) % p];
+  const at = (t: number): Point => [a[0] + (b[0] - a[0])*t, a[1] + (b[1] - a[1])*t];
+  const mid = at((t0 + t1) / 2);
+  return [at(t0), [mid[0]*0.8, mid[1]*0.8], at(t1)];
+};
+
+test('hyperbolic slides and corner turns join the tile', () => {
+  assert.equal(applyHyperOp(hyperTile(4, 5), { type: 'slide', slide: 'e0', draft: hyperBump(4, 5, 0, 0.3, 0.6) }).tileMP.length, 1);
+  assert.equal(applyHyperOp(hyperTile(6, 4), { type: 'slide', slide: 'e1', draft: hyperBump(6, 4, 1, 0.3, 0.6) }).tileMP.length, 1);
+  // about corner 1 of a {4,5} tile, +72° carries edge 1 onto edge 4 and -72° carries edge 4 back
+  assert.equal(applyHyperOp(hyperTile(4, 5), { type: 'turn', pivot: 'c0', angle: 72, draft: hyperBump(4, 5, 0, 0, 0.6) }).tileMP.length, 1);
+  assert.equal(applyHyperOp(hyperTile(4, 5), { type: 'turn', pivot: 'c0', angle: -72, draft: hyperBump(4, 5, 3, 0.4, 1) }).tileMP.length, 1);
+  assert.equal(applyHyperOp(hyperTile(5, 4), { type: 'turn', pivot: 'c0', angle: 90, draft: hyperBump(5, 4, 0, 0, 0.6) }).tileMP.length, 1);
+});
+
+const issueCodes = (issues: Array<{ level: string; code: string }>) => issues.map(i => `${i.level}:${i.code}`);
+
+test('checkDraft reports broken drafts as errors and redundant points as warnings', () => {
+  assert.deepEqual(issueCodes(checkDraft([[0, 0], [10, 0], [0, 0]], 0.5)), ['error:tooFew']);
+  assert.deepEqual(issueCodes(checkDraft([[0, 0], [10, 10], [10, 0], [0, 10]], 0.5)), ['error:selfIntersection']);
+  assert.deepEqual(issueCodes(checkDraft([[0, 0], [10, 0], [20, 0]], 0.5)), ['error:zeroArea', 'warning:collinear']);
+  assert.deepEqual(issueCodes(checkDraft([[0, 0], [10, 0], [10, 0], [10, 10]], 0.5)), ['warning:duplicate']);
+  assert.deepEqual(issueCodes(checkDraft([[0, 0], [5, 0.1], [10, 0], [10, 10]], 0.5)), ['warning:collinear']);
+  assert.deepEqual(checkDraft([[0, 0], [10, 0], [10, 10]], 0.5), []);
+});
+
+test('repairDraft drops duplicate and straight-run points but keeps curve handles', () => {
+  const draft: Draft = [[0, 0], [10, 0], [10, 0, { h: [12, 5] }], [20, 0.1], [30, 0], [30, 30]];
+  const repaired = repairDraft(draft);
+  assert.deepEqual(repaired, [[0, 0], [10, 0, { h: [12, 5] }], [20, 0.1], [30, 0], [30, 30]]);
+  assert.deepEqual(checkDraft(repaired, 0.5), []);
+  // the first of two duplicates keeps its own handle
+  assert.deepEqual(repairDraft([[0, 0], [10, 0, { h: [12, 5] }], [10, 0], [10, 10], [0, 0]]), [[0, 0], [10, 0, { h: [12, 5] }], [10, 10], [0, 0]]);
+});
+
+test('checkTileOp flags unknown slides, cuts that miss their edge and pieces leaving the work area', () => {
+  const rect = tile('rect', 240, 160);
+  assert.deepEqual(checkTileOp(tile('parallelogram', 240, 160), { type: 'cutGlide', slide: 'LR', draft: [[40, 20], [60, 40], [40, 60]] }).map(i => i.message),
+    ['A parallelogram base has no glide "LR"']);
+  assert.deepEqual(issueCodes(checkTileOp(rect, { type: 'cutSlide', slide: 'LR', draft: [[40, 20], [60, 40], [40, 60]] })), ['warning:missesEdge']);
+  const far = checkTileOp(rect, { type: 'cutSlide', slide: 'LR', draft: [[0, 20], [30, 40], [0, -250]] });
+  assert.deepEqual(issueCodes(far), ['warning:leavesWorkArea']);
+  assert.deepEqual(far[0].points, [[240, -250]]);
+});
+
+test('cutSlide and cutGlide move the bump to the opposite edge', () => {
+  const rect = tile('rect', 240, 160);
+  const draft: Point[] = [[0, 20], [30, 40], [0, 60]];
+  const slid = applyTileOp(rect, { type: 'cutSlide', slide: 'LR', draft });
+  assert.deepEqual(slid.tileMP, [[[[0, 0], [240, 0], [240, 20], [270, 40], [240, 60], [240, 160], [0, 160], [0, 60], [30, 40], [0, 20], [0, 0]]]]);
+  // the glide mirrors the piece across the tile's horizontal axis on the way
+  const glided = applyTileOp(rect, { type: 'cutGlide', slide: 'LR', draft });
+  assert.deepEqual(glided.tileMP, [[[[0, 0], [240, 0], [240, 100], [270, 120], [240, 140], [240, 160], [0, 160], [0, 60], [30, 40], [0, 20], [0, 0]]]]);
+  assert.deepEqual(validity(slid).issues, []);
+  assert.deepEqual(validity(glided).issues, []);
+  assert.deepEqual(slid.draftShape, []);
+});
+
+test('checkTessellation measures overlaps, gaps, area and pieces', () => {
+  const rect = tile('rect', 240, 160);
+  const notch: Point[] = [[0, 20], [30, 40], [0, 60]], bump: Point[] = [[240, 80], [270, 100], [240, 120]];
+  // a notch and a bump that do not line up
+  const mismatched = applyTileOp(applyTileOp(rect, { type: 'subtract', draft: notch }), { type: 'union', draft: bump });
+  const report = validity(mismatched);
+  assert.deepEqual(report.issues, ['Overlaps neighbours by 1200.0', 'Leaves gaps of 600.0']);
+  assert.equal(mpArea(report.overlaps), 1200);
+  assert.equal(mpArea(report.gaps), 600);
+  assert.deepEqual(validity(applyTileOp(rect, { type: 'union', draft: bump })).issues, ['Area is 39000.0 but the base tile has 38400.0', 'Overlaps neighbours by 1200.0']);
+  assert.deepEqual(validity(applyTileOp(rect, { type: 'subtract', draft: [[100, -10], [140, -10], [140, 170], [100, 170]] })).issues,
+    ['Area is 32000.0 but the base tile has 38400.0', 'Tile has 2 separate pieces', 'Leaves gaps of 6400.0']);
+});
+
+test('snapToPlacement lands turned and flipped tiles on a cell of the tiling', () => {
+  const square = baseOf(tile('square'));
+  assert.deepEqual(snapToPlacement([195, -10], square, 0, false, [50, 100]), [200, 0]);
+  // a quarter turn about (50, 100) moves the base by (50, -50) before snapping
+  assert.deepEqual(snapToPlacement([60, -40], square, 90, false, [50, 100]), [50, -50]);
+  // 45° maps the square onto no cell, so it keeps plain lattice snapping
+  assert.deepEqual(snapToPlacement([180, 230], square, 45, false, [50, 100]), [200, 200]);
+  // a triangle turned 180° about its centre lands on the half-turned cell beside it
+  const triangle = baseOf(tile('triangle', 240));
+  const g = triangle.outline.reduce(([x, y], p): Point => [x + p[0]/3, y + p[1]/3], [0, 0]);
+  const [dx, dy] = snapToPlacement([130, -60], triangle, 180, false, g);
+  const placed = triangle.outline.map(p => rotatePoint(p, 180, g[0], g[1])).map(([x, y]) => [+(x + dx).toFixed(2) || 0, +(y + dy).toFixed(2) || 0]);
+  assert.deepEqual(placed.sort((a, b) => a[0] - b[0]), [[120, 0], [240, 207.85], [360, 0]]);
+  // mirrored about x = 100, the symmetric triangle is the base moved by (-40, 0), so it snaps to a lattice cell
+  assert.deepEqual(snapToPlacement([130, -60], triangle, 0, true, [100, 100]), [280, 0]);
+});
+
+test('checkHyperOp keeps drafts inside the disk and slides to even tiles', () => {
+  const draft: Point[] = [[0, 0], [10, 0], [0, 50]];
+  assert.deepEqual(issueCodes(checkHyperOp(hyperTile(4, 5), { type: 'union', draft: [[0, 0], [HYPER_R, 0], [0, 50]] })), ['error:outsideDisk']);
+  assert.deepEqual(checkHyperOp(hyperTile(5, 4), { type: 'slide', slide: 'e0', draft }).map(i => i.message),
+    ['A {5,4} tile has no slide "e0"; odd p pairs its edges by turns only']);
+  assert.deepEqual(issueCodes(checkHyperOp(hyperTile(4, 5), { type: 'slide', slide: 'e0', draft })), ['warning:missesEdge']);
+  assert.deepEqual(checkHyperOp(hyperTile(4, 5), { type: 'slide', slide: 'e0', draft: hyperBump(4, 5, 0, 0.3, 0.6) }), []);
+});
+
+test('applyHyperOp slides and turns pieces onto the tile and refuses other turns', () => {
+  const slid = applyHyperOp(hyperTile(4, 5), { type: 'slide', slide: 'e0', draft: hyperBump(4, 5, 0, 0.3, 0.6) });
+  assert.equal(slid.tileMP.length, 1);
+  assert.ok(slid.tileMP[0][0].length > 5);
+  const turned = applyHyperOp(hyperTile(4, 5), { type: 'turn', pivot: 'm0', angle: 180, draft: hyperBump(4, 5, 0, 0.3, 0.6) });
+  assert.equal(turned.tileMP.length, 1);
+  assert.throws(() => applyHyperOp(hyperTile(4, 5), { type: 'turn', pivot: 'c0', angle: 90, draft: hyperBump(4, 5, 0, 0, 0.6) }), /Corner 1 of a \{4,5\} tile turns by 72° or -72°/);
+  assert.throws(() => applyHyperOp(hyperTile(4, 5), { type: 'turn', pivot: 'c9', angle: 72, draft: hyperBump(4, 5, 0, 0, 0.6) }), /has no pivot "c9"/);
+});
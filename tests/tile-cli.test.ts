@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { parseJob, replay, tileJSON } from "../tile-cli";
+
+const fixture = (name: string) => path.resolve('tests/fixtures', name);
+
+// Compared with the checked-in output; run with UPDATE_SNAPSHOTS=1 to rewrite it
+test('replays the fish ops to the expected tile', () => {
+  const out = tileJSON(replay(parseJob(fs.readFileSync(fixture('fish.ops.json'), 'utf8'))));
+  if (process.env.UPDATE_SNAPSHOTS) fs.writeFileSync(fixture('fish.expected.json'), out);
+  assert.equal(out, fs.readFileSync(fixture('fish.expected.json'), 'utf8'));
+  assert.equal(JSON.parse(out).valid, true);
+});
+
+test('parseJob accepts a bare op list', () => {
+  assert.equal(parseJob('[{ "type": "union", "draft": [[0, 0], [10, 0], [0, 10]] }]').ops.length, 1);
+});
+
+const rejects = (job: unknown, message: RegExp) => assert.throws(() => parseJob(JSON.stringify(job)), message);
+const DRAFT = [[0, 40], [30, 60], [0, 80]];
+
+test('parseJob rejects ops without their slide, pivot or angle', () => {
+  rejects([{ type: 'cutSlide', draft: DRAFT }], /Operation 0: cutSlide needs a slide id/);
+  rejects([{ type: 'union', draft: DRAFT }, { type: 'cutGlide', slide: 3, draft: DRAFT }], /Operation 1: cutGlide needs a slide id/);
+  rejects([{ type: 'cutTurn', angle: 90, draft: DRAFT }], /Operation 0: cutTurn needs a pivot id/);
+  rejects([{ type: 'cutTurn', pivot: 'm0', angle: '90', draft: DRAFT }], /Operation 0: cutTurn needs an angle/);
+});
+
+test('parseJob rejects turns the pivot does not allow', () => {
+  rejects([{ type: 'cutTurn', pivot: 'c0', angle: 90, draft: DRAFT }], /Operation 0: Corner 1 of a rect base is not a turn centre/);
+  rejects({ base: { kind: 'square', width: 200 }, ops: [{ type: 'cutTurn', pivot: 'c0', angle: 120, draft: DRAFT }] }, /Corner 1 of a square base only turns by 90° or -90°/);
+  rejects({ base: { kind: 'hexagon' }, ops: [{ type: 'cutTurn', pivot: 'c9', angle: 120, draft: DRAFT }] }, /A hexagon base has no pivot "c9"/);
+  assert.equal(parseJob(JSON.stringify({ base: { kind: 'square' }, ops: [{ type: 'cutTurn', pivot: 'c2', angle: -90, draft: DRAFT }] })).ops.length, 1);
+});
+
+test('parseJob rejects malformed drafts and unknown op types', () => {
+  rejects([{ type: 'rotate', draft: DRAFT }], /Operation 0: type must be one of/);
+  rejects([{ type: 'union', draft: [[0, 0], [10]] }], /Operation 0: draft must be an array of \[x, y\] points/);
+});
+
+test('parseJob rejects bases without a positive size', () => {
+  rejects({ base: { kind: 'rect', width: 0 }, ops: [] }, /base.width must be a positive number/);
+  rejects({ base: { height: -160 }, ops: [] }, /base.height must be a positive number/);
+  rejects({ base: { kind: 'circle' }, ops: [] }, /Unknown base kind circle/);
+  rejects({ base: { kind: 'parallelogram', angle: 200 }, ops: [] }, /base.angle must be/);
+  rejects({ curveTol: 0, ops: [] }, /curveTol must be a positive number/);
+});
@@ -0,0 +1,111 @@
+// Replays tile operations without the editor and prints the resulting tile, for batch generation and
+// regression tests:
+//   npm run tile -- ops.json [--format json|svg] [--out tile.svg]
+// The input (a file, or standard input when it is missing or "-") is a JSON array of TileOp (see
+// geometry.ts), or { base?: { kind, width, height, angle }, curveTol?: number, ops: TileOp[] }.
+// The default base is the editor's 240 × 160 rectangle.
+
+import * as fs from "fs";
+import {
+  BASE_KINDS, applyTileOp, baseOf, checkTessellation, checkTileOp, initialTileState, mpBounds, mpToCurvePath,
+  type BaseKind, type TileOp, type TileState,
+} from "./geometry";
+
+type Job = { base?: { kind?: BaseKind; width?: number; height?: number; angle?: number }; curveTol?: number; ops: TileOp[] };
+const OP_TYPES = ['cutSlide', 'cutTurn', 'cutGlide', 'union', 'subtract'];
+const USAGE = 'Usage: tile-cli [ops.json|-] [--format json|svg] [--out file]';
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = { input: '-', format: 'json', out: null as string | null };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--format' || a === '-f') args.format = argv[++i];
+    else if (a === '--out' || a === '-o') args.out = argv[++i];
+    else if (a === '--help' || a === '-h') { console.log(USAGE); process.exit(0); }
+    else if (a.startsWith('-') && a !== '-') fail(`Unknown option ${a}\n${USAGE}`);
+    else args.input = a;
+  }
+  if (args.format !== 'json' && args.format !== 'svg') fail(`Unknown format ${args.format}\n${USAGE}`);
+  return args;
+};
+
+const isPositive = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+const isPoint = (p: unknown) => Array.isArray(p) && p.length >= 2 && Number.isFinite(p[0]) && Number.isFinite(p[1]);
+
+// Accepts the bare op list too; throws naming the first malformed field, or the index of the first malformed op
+export const parseJob = (text: string): Job => {
+  const raw = JSON.parse(text);
+  const job: Job = Array.isArray(raw) ? { ops: raw } : raw;
+  if (!job || !Array.isArray(job.ops)) throw new Error('Expected an array of operations or { ops: [...] }');
+  const b = job.base;
+  if (b !== undefined) {
+    if (!b || typeof b !== 'object') throw new Error('base must be an object { kind, width, height, angle }');
+    if (b.kind !== undefined && !BASE_KINDS.some(k => k.id === b.kind)) throw new Error(`Unknown base kind ${b.kind}`);
+    if (b.width !== undefined && !isPositive(b.width)) throw new Error('base.width must be a positive number');
+    if (b.height !== undefined && !isPositive(b.height)) throw new Error('base.height must be a positive number');
+    if (b.angle !== undefined && !(isPositive(b.angle) && b.angle < 180)) throw new Error('base.angle must be a number of degrees between 0 and 180');
+  }
+  if (job.curveTol !== undefined && !isPositive(job.curveTol)) throw new Error('curveTol must be a positive number');
+  const start = startState(job);
+  job.ops.forEach((op, i) => {
+    if (!op || !OP_TYPES.includes(op.type)) throw new Error(`Operation ${i}: type must be one of ${OP_TYPES.join(', ')}`);
+    if (!Array.isArray(op.draft) || !op.draft.every(isPoint)) throw new Error(`Operation ${i}: draft must be an array of [x, y] points`);
+    if ((op.type === 'cutSlide' || op.type === 'cutGlide') && typeof op.slide !== 'string') throw new Error(`Operation ${i}: ${op.type} needs a slide id`);
+    if (op.type === 'cutTurn' && typeof op.pivot !== 'string') throw new Error(`Operation ${i}: cutTurn needs a pivot id`);
+    if (op.type === 'cutTurn' && !Number.isFinite(op.angle)) throw new Error(`Operation ${i}: cutTurn needs an angle in degrees`);
+    // the pivots and their turns only depend on the base, so a bad turn is caught before replaying anything
+    const badTurn = op.type === 'cutTurn' && checkTileOp(start, op).find(issue => issue.code === 'badTurn');
+    if (badTurn) throw new Error(`Operation ${i}: ${badTurn.message}`);
+  });
+  return job;
+};
+
+const startState = (job: Job): TileState => {
+  const b = job.base || {};
+  return initialTileState(b.kind || 'rect', b.width || 240, b.height || 160, b.angle ?? 60, job.curveTol ?? 0.5);
+};
+
+// Applies every op in order; the first op applyTileOp rejects stops the replay, naming its index
+export const replay = (job: Job): TileState => {
+  const start = startState(job);
+  return job.ops.reduce((s, op, i) => {
+    try {
+      return applyTileOp(s, op);
+    } catch (e) {
+      throw new Error(`Operation ${i} (${op.type}): ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, start);
+};
+
+export const tileSVG = (s: TileState): string => {
+  const [x0, y0, x1, y1] = mpBounds(s.tileMP);
+  const w = x1 - x0, h = y1 - y0;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="${x0} ${y0} ${w} ${h}">\n` +
+    `<path d="${mpToCurvePath(s.tileMP, s.curves)}" fill="none" stroke="black" stroke-width="2"/>\n</svg>\n`;
+};
+
+export const tileJSON = (s: TileState): string => {
+  const { ok, issues } = checkTessellation(s.tileMP, baseOf(s));
+  const { baseKind, baseAngle, tileW, tileH, tileMP, curves } = s;
+  return JSON.stringify({ baseKind, baseAngle, tileW, tileH, tileMP, curves, valid: ok, issues }, null, 2) + '\n';
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  let state: TileState;
+  try {
+    state = replay(parseJob(fs.readFileSync(args.input === '-' ? 0 : args.input, 'utf8')));
+  } catch (e) {
+    return fail(`tile-cli: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const output = args.format === 'svg' ? tileSVG(state) : tileJSON(state);
+  if (args.out) fs.writeFileSync(args.out, output);
+  else process.stdout.write(output);
+};
+
+if (require.main === module) main();